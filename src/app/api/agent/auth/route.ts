@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  AUTH_COOKIE,
+  AUTH_COOKIE_TTL_MS,
+  createAuthToken,
+  findApiKey,
+  isAuthEnabled,
+} from "@/lib/agent-auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const signInSchema = z.object({
+  apiKey: z.string().trim().min(1),
+});
+
+/** Exchanges an API key for a signed cookie so the browser UI can call the API. */
+export async function POST(req: Request) {
+  if (!isAuthEnabled()) {
+    return NextResponse.json(
+      { error: "Authentication is not enabled." },
+      { status: 400 },
+    );
+  }
+
+  const body = await req.json().catch(() => null);
+  const parsed = signInSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request. Expected { apiKey: string }." },
+      { status: 400 },
+    );
+  }
+
+  const caller = findApiKey(parsed.data.apiKey);
+  if (!caller) {
+    return NextResponse.json({ error: "Invalid API key." }, { status: 401 });
+  }
+
+  const response = NextResponse.json({ id: caller.id });
+  response.cookies.set(AUTH_COOKIE, createAuthToken(caller), {
+    httpOnly: true,
+    sameSite: "strict",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: AUTH_COOKIE_TTL_MS / 1000,
+  });
+  return response;
+}
+
+export async function DELETE() {
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.delete(AUTH_COOKIE);
+  return response;
+}
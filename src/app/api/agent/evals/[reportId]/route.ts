@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { authenticate, unauthorizedResponse } from "@/lib/agent-auth";
+import { getEvalReport } from "@/lib/agent-evals";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ reportId: string }> | { reportId: string };
+};
+
+export async function GET(req: Request, { params }: RouteContext) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  const { reportId } = await params;
+  const report = await getEvalReport(reportId);
+
+  if (!report || report.ownerId !== caller.id) {
+    return NextResponse.json({ error: "Report not found." }, { status: 404 });
+  }
+
+  return NextResponse.json(report);
+}
@@ -0,0 +1,149 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { POST as runAgent } from "@/app/api/agent/route";
+import { authenticate, unauthorizedResponse } from "@/lib/agent-auth";
+import {
+  listEvalReports,
+  runEvalSuite,
+  type LiveCaseRunner,
+} from "@/lib/agent-evals";
+import { runAgentRequest } from "@/lib/agent-requests";
+import { evalSuiteSchema, loadEvalSuite } from "@/lib/eval-suite";
+import { acquireRunLimit, rateLimitedResponse } from "@/lib/rate-limit";
+import { commandBudgetMs, getExecutionLimits } from "@/lib/sandbox-limits";
+import {
+  getSandboxManager,
+  managedSandboxFactory,
+} from "@/lib/sandbox-manager";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// A suite sent in the body runs the caller's code and is checked in this
+// process, so it stays small and cannot use regex checks (which could stall
+// the server on a pathological pattern).
+const MAX_REQUEST_SUITE_CASES = 10;
+
+const requestSuiteSchema = evalSuiteSchema
+  .refine(
+    (suite) => suite.cases.length <= MAX_REQUEST_SUITE_CASES,
+    `A suite sent in the request can have at most ${MAX_REQUEST_SUITE_CASES} cases.`,
+  )
+  .refine(
+    (suite) =>
+      suite.cases.every((evalCase) =>
+        evalCase.checks.every((check) => check.type !== "regex"),
+      ),
+    "Regex checks are only allowed in the configured suite.",
+  );
+
+const evalRequestSchema = z.object({
+  mode: z.enum(["live", "offline"]).default("offline"),
+  /** Overrides the configured suite for this run. */
+  suite: requestSuiteSchema.optional(),
+});
+
+export async function GET(req: Request) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  return NextResponse.json({ reports: await listEvalReports(caller.id) });
+}
+
+export async function POST(req: Request) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = evalRequestSchema.safeParse(body ?? {});
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: `Invalid request. Expected { mode?: "live" | "offline", suite?: { name, cases } }. ${parsed.error.message}`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const offline = parsed.data.mode === "offline";
+  if (
+    offline &&
+    parsed.data.suite &&
+    process.env.AGENT_REQUIRE_APPROVAL === "true"
+  ) {
+    return NextResponse.json(
+      {
+        error:
+          "Approval is required for sandbox code, so only the configured suite can run offline.",
+      },
+      { status: 403 },
+    );
+  }
+
+  let suite = parsed.data.suite;
+  if (!suite) {
+    try {
+      suite = await loadEvalSuite();
+    } catch (error) {
+      console.error("Failed to load eval suite:", error);
+      return NextResponse.json(
+        { error: "Eval suite could not be loaded." },
+        { status: 500 },
+      );
+    }
+  }
+
+  // Live cases go through /api/agent with the caller's credentials, one at a
+  // time, so they use the same pipeline, limits and traces as any other run.
+  const runLive: LiveCaseRunner = async (evalCase) => {
+    const run = await runAgentRequest(runAgent, req, {
+      prompt: evalCase.prompt,
+      ...(evalCase.model ? { model: evalCase.model } : {}),
+    });
+    if (run.ok) {
+      return { traceId: run.traceId };
+    }
+
+    const failure = (await run.response.json().catch(() => null)) as {
+      error?: string;
+    } | null;
+    return {
+      error: failure?.error ?? `Agent responded with ${run.response.status}.`,
+    };
+  };
+
+  // Offline cases run their sandbox calls for real. The configured suite runs
+  // them as local child processes; code sent in the request body only ever
+  // runs in the configured sandbox provider.
+  const sandboxes = parsed.data.suite
+    ? managedSandboxFactory(
+        getSandboxManager(),
+        commandBudgetMs(getExecutionLimits()),
+      )
+    : undefined;
+
+  // Live cases each take a run limit in /api/agent; an offline suite runs its
+  // sandbox calls here, so it counts as one run for as long as it takes.
+  const runLimit = offline ? await acquireRunLimit(caller) : null;
+  if (runLimit && !runLimit.ok) {
+    return rateLimitedResponse(runLimit);
+  }
+
+  try {
+    const report = await runEvalSuite(suite, {
+      mode: parsed.data.mode,
+      ownerId: caller.id,
+      runLive,
+      sandboxes,
+    });
+
+    return NextResponse.json(report);
+  } finally {
+    await runLimit?.release();
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { cancelJob, getJob } from "@/lib/agent-jobs";
+import { authenticate, unauthorizedResponse } from "@/lib/agent-auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ jobId: string }> | { jobId: string };
+};
+
+export async function POST(req: Request, { params }: RouteContext) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  const { jobId } = await params;
+  const job = getJob(jobId);
+
+  if (!job || job.ownerId !== caller.id) {
+    return NextResponse.json({ error: "Job not found." }, { status: 404 });
+  }
+
+  if (!cancelJob(jobId)) {
+    return NextResponse.json(
+      { error: `Job already ${job.status}.` },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json(job);
+}
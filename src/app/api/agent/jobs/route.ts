@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server";
+import { randomUUID } from "crypto";
+import { gateway } from "ai";
+import { z } from "zod";
+import { traceRecorder } from "@/lib/agent-traces";
+import { authenticate, unauthorizedResponse } from "@/lib/agent-auth";
+import { acquireRunLimit, rateLimitedResponse } from "@/lib/rate-limit";
+import { createAgentRunner } from "@/lib/agent-runner";
+import { resolveSecrets } from "@/lib/agent-secrets";
+import { isAllowedModel, resolveModelChain } from "@/lib/agent-models";
+import { getSandboxManager } from "@/lib/sandbox-manager";
+import {
+  createJob,
+  getJobLimits,
+  isWebhookSigningEnabled,
+  jobSandboxFactory,
+  listJobs,
+  runJob,
+} from "@/lib/agent-jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const jobSchema = z.object({
+  prompt: z.string().trim().min(1).max(2000),
+  model: z.string().trim().min(1).optional(),
+  files: z
+    .array(
+      z.object({
+        name: z.string().regex(/^[a-zA-Z0-9_-][a-zA-Z0-9._-]{0,99}$/),
+        // Base64-encoded contents, about 1 MB decoded.
+        content: z.string().max(1_400_000),
+      }),
+    )
+    .max(5)
+    .optional(),
+  requireApproval: z.boolean().optional(),
+  secrets: z.array(z.string().min(1)).max(10).optional(),
+  /** Called with a signed JSON body once the job finishes. */
+  webhookUrl: z
+    .string()
+    .url()
+    .refine((url) => /^https?:\/\//.test(url))
+    .optional(),
+});
+
+export async function GET(req: Request) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  return NextResponse.json({ jobs: listJobs(caller.id) });
+}
+
+/**
+ * Starts an agent run in the background and answers with its job id right
+ * away. Poll `GET /api/agent/jobs/[jobId]` for status and partial output.
+ */
+export async function POST(req: Request) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  const body = await req.json().catch(() => null);
+  const parsed = jobSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error:
+          "Invalid request. Expected { prompt: string, model?: string, files?: { name, content }[], requireApproval?: boolean, secrets?: string[], webhookUrl?: string }.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (parsed.data.model && !isAllowedModel(parsed.data.model)) {
+    return NextResponse.json(
+      { error: `Model "${parsed.data.model}" is not allowed.` },
+      { status: 400 },
+    );
+  }
+
+  if (parsed.data.webhookUrl && !isWebhookSigningEnabled()) {
+    return NextResponse.json(
+      { error: "Webhooks need AGENT_JOB_WEBHOOK_SECRET to be set." },
+      { status: 400 },
+    );
+  }
+
+  const requireApproval =
+    parsed.data.requireApproval === true ||
+    process.env.AGENT_REQUIRE_APPROVAL === "true";
+
+  const secrets = resolveSecrets(parsed.data.secrets ?? []);
+  if (!secrets.ok) {
+    return NextResponse.json({ error: secrets.error }, { status: 400 });
+  }
+
+  if (!process.env.AI_GATEWAY_API_KEY) {
+    return NextResponse.json(
+      { error: "Missing AI_GATEWAY_API_KEY. Set it in your env first." },
+      { status: 500 },
+    );
+  }
+
+  const runLimit = await acquireRunLimit(caller);
+  if (!runLimit.ok) {
+    return rateLimitedResponse(runLimit);
+  }
+
+  const limits = getJobLimits();
+  const sandboxManager = getSandboxManager();
+  sandboxManager.warm();
+
+  const runner = createAgentRunner({
+    createModel: (modelId) => gateway(modelId),
+    sandboxes: jobSandboxFactory(sandboxManager, limits.sandboxTimeoutMs),
+    traces: traceRecorder,
+  });
+
+  const job = createJob({
+    ownerId: caller.id,
+    traceId: randomUUID(),
+    prompt: parsed.data.prompt,
+    model: parsed.data.model ?? null,
+    webhookUrl: parsed.data.webhookUrl,
+  });
+
+  void runJob(job, () =>
+    runner.run({
+      traceId: job.traceId,
+      ownerId: caller.id,
+      prompt: parsed.data.prompt,
+      modelChain: resolveModelChain(parsed.data.model),
+      uploads: (parsed.data.files ?? []).map((file) => ({
+        name: file.name,
+        content: Buffer.from(file.content, "base64"),
+      })),
+      requireApproval,
+      secrets: secrets.secrets,
+      executionLimits: { runTimeoutMs: limits.runTimeoutMs },
+      onSettled: () => runLimit.release(),
+    }),
+  );
+
+  return NextResponse.json(job, {
+    status: 202,
+    headers: { Location: `/api/agent/jobs/${job.id}` },
+  });
+}
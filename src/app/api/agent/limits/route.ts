@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { getExecutionLimits } from "@/lib/sandbox-limits";
+import { getOutputLimits } from "@/lib/sandbox-output";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** The per-call limits runInSandbox applies, for display in the UI. */
+export async function GET() {
+  return NextResponse.json({
+    ...getExecutionLimits(),
+    output: getOutputLimits(),
+  });
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { findTraces } from "@/lib/agent-traces";
+import { authenticate, unauthorizedResponse } from "@/lib/agent-auth";
+import { traceFilterSchema } from "@/lib/trace-filters";
+import { computeTraceMetrics } from "@/lib/trace-metrics";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  const searchParams = new URL(req.url).searchParams;
+  const parsed = traceFilterSchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid query.", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  return NextResponse.json(
+    computeTraceMetrics(findTraces({ ...parsed.data, ownerId: caller.id })),
+  );
+}
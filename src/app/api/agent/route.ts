@@ -1,141 +1,89 @@
 import { NextResponse } from "next/server";
 import { randomUUID } from "crypto";
-import { Sandbox } from "@vercel/sandbox";
-import {
-  ToolLoopAgent,
-  stepCountIs,
-  tool,
-  gateway,
-  zodSchema,
-  createTextStreamResponse,
-} from "ai";
+import { gateway, type ModelMessage } from "ai";
 import { z } from "zod";
+import { traceRecorder } from "@/lib/agent-traces";
+import { authenticate, unauthorizedResponse } from "@/lib/agent-auth";
+import { acquireRunLimit, rateLimitedResponse } from "@/lib/rate-limit";
+import { createAgentRunner } from "@/lib/agent-runner";
+import { resolveSecrets } from "@/lib/agent-secrets";
+import { commandBudgetMs, getExecutionLimits } from "@/lib/sandbox-limits";
+import { isAllowedModel, resolveModelChain } from "@/lib/agent-models";
+import {
+  getSandboxManager,
+  managedSandboxFactory,
+} from "@/lib/sandbox-manager";
+import {
+  encodeStreamEvent,
+  resolveStreamFormat,
+  streamContentType,
+  type AgentStreamEvent,
+} from "@/lib/agent-events";
 import {
-  appendTraceEvent,
-  finishTrace,
-  startTrace,
-} from "@/lib/agent-traces";
+  getSession,
+  sessionSandboxFactory,
+  type AgentSession,
+} from "@/lib/agent-sessions";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 const requestSchema = z.object({
   prompt: z.string().trim().min(1).max(2000),
-});
-
-const toolInputSchema = z.object({
-  code: z.string().min(1).max(6000),
-  packages: z
-    .array(z.string().regex(/^[a-zA-Z0-9@/._-]+$/))
+  sessionId: z.string().uuid().optional(),
+  model: z.string().trim().min(1).optional(),
+  files: z
+    .array(
+      z.object({
+        name: z.string().regex(/^[a-zA-Z0-9_-][a-zA-Z0-9._-]{0,99}$/),
+        // Base64-encoded contents, about 1 MB decoded.
+        content: z.string().max(1_400_000),
+      }),
+    )
     .max(5)
     .optional(),
+  requireApproval: z.boolean().optional(),
+  /** Names from `AGENT_SECRETS` to expose to sandbox code. */
+  secrets: z.array(z.string().min(1)).max(10).optional(),
 });
 
-const fetchJsonInputSchema = z.object({
-  url: z.string().url(),
-});
-
-const PRIVATE_HOSTNAMES = new Set(["localhost", "0.0.0.0", "::1"]);
-
-function isPrivateHostname(hostname: string) {
-  if (PRIVATE_HOSTNAMES.has(hostname)) {
-    return true;
-  }
-
-  if (hostname.endsWith(".local") || hostname.endsWith(".internal")) {
-    return true;
-  }
-
-  const ipv4Match = hostname.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
-  if (ipv4Match) {
-    const octets = ipv4Match.slice(1).map(Number);
-    const [a, b] = octets;
-
-    if (a === 10 || a === 127 || a === 0) {
-      return true;
-    }
-
-    if (a === 192 && b === 168) {
-      return true;
-    }
-
-    if (a === 172 && b >= 16 && b <= 31) {
-      return true;
-    }
-
-    if (a === 169 && b === 254) {
-      return true;
-    }
-  }
-
-  if (hostname.includes(":")) {
-    const lower = hostname.toLowerCase();
-    if (
-      lower.startsWith("fe80:") ||
-      lower.startsWith("fc") ||
-      lower.startsWith("fd")
-    ) {
-      return true;
-    }
-  }
-
-  return false;
-}
-
-async function fetchJson(url: string) {
-  const parsed = new URL(url);
-  if (!["http:", "https:"].includes(parsed.protocol)) {
-    throw new Error("Only http/https URLs are allowed.");
-  }
-
-  if (isPrivateHostname(parsed.hostname)) {
-    throw new Error("Private or local addresses are not allowed.");
+export async function POST(req: Request) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
   }
 
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 10_000);
-
-  try {
-    const response = await fetch(parsed.toString(), {
-      headers: { accept: "application/json" },
-      signal: controller.signal,
-    });
-
-    if (!response.ok) {
-      throw new Error(`Request failed with status ${response.status}.`);
-    }
-
-    const text = await response.text();
-    if (text.length > 200_000) {
-      throw new Error("Response too large to parse safely.");
-    }
-
-    try {
-      const data = JSON.parse(text);
-      return {
-        url: parsed.toString(),
-        status: response.status,
-        data,
-      };
-    } catch {
-      throw new Error("Response was not valid JSON.");
-    }
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
-export async function POST(req: Request) {
   const body = await req.json().catch(() => null);
   const parsed = requestSchema.safeParse(body);
 
   if (!parsed.success) {
     return NextResponse.json(
-      { error: "Invalid request. Expected { prompt: string }." },
+      {
+        error:
+          "Invalid request. Expected { prompt: string, sessionId?: string, model?: string, files?: { name, content }[], requireApproval?: boolean, secrets?: string[] }.",
+      },
+      { status: 400 },
+    );
+  }
+
+  if (parsed.data.model && !isAllowedModel(parsed.data.model)) {
+    return NextResponse.json(
+      { error: `Model "${parsed.data.model}" is not allowed.` },
       { status: 400 },
     );
   }
 
+  const modelChain = resolveModelChain(parsed.data.model);
+  // A deployment can force approvals on; a request can only add them.
+  const requireApproval =
+    parsed.data.requireApproval === true ||
+    process.env.AGENT_REQUIRE_APPROVAL === "true";
+
+  const secrets = resolveSecrets(parsed.data.secrets ?? []);
+  if (!secrets.ok) {
+    return NextResponse.json({ error: secrets.error }, { status: 400 });
+  }
+
   if (!process.env.AI_GATEWAY_API_KEY) {
     return NextResponse.json(
       { error: "Missing AI_GATEWAY_API_KEY. Set it in your env first." },
@@ -143,178 +91,108 @@ export async function POST(req: Request) {
     );
   }
 
-  const traceId = randomUUID();
-  let sandbox: Sandbox | null = null;
-
-  try {
-    sandbox = await Sandbox.create({
-      runtime: "node22",
-      timeout: 30_000,
-    });
-    const activeSandbox = sandbox;
-    if (!activeSandbox) {
-      throw new Error("Sandbox unavailable.");
+  let session: AgentSession | null = null;
+  if (parsed.data.sessionId) {
+    session = getSession(parsed.data.sessionId);
+    if (!session || session.ownerId !== caller.id) {
+      return NextResponse.json(
+        { error: "Session not found." },
+        { status: 404 },
+      );
     }
+  }
 
-    startTrace({
-      id: traceId,
-      prompt: parsed.data.prompt,
-      model: "openai/gpt-5-nano",
-      sandboxId: activeSandbox.sandboxId,
-    });
-
-    const agent = new ToolLoopAgent({
-      model: gateway("openai/gpt-5-nano"),
-      instructions: [
-        "You are a coding assistant that can execute JavaScript in a locked sandbox.",
-        "Use fetchJson for direct JSON API lookups when possible.",
-        "Use runInSandbox for calculations, data transforms, or when you need npm packages.",
-        "If you execute code, print the final answer with console.log and keep outputs concise.",
-        "Avoid reading environment variables or the filesystem unless the task truly requires it.",
-      ].join(" "),
-      tools: {
-        fetchJson: tool({
-          description:
-            "Fetch JSON from a public HTTP endpoint without running code in the sandbox.",
-          inputSchema: zodSchema(fetchJsonInputSchema),
-          execute: async ({ url }) => fetchJson(url),
-        }),
-        runInSandbox: tool({
-          description:
-            "Install optional npm packages and execute JavaScript in a sandboxed Node.js runtime.",
-          inputSchema: zodSchema(toolInputSchema),
-          execute: async ({ code, packages }) => {
-            const cwd = "/vercel/sandbox";
-
-            if (packages?.length) {
-              await activeSandbox.runCommand("npm", ["init", "-y"], { cwd });
-              const install = await activeSandbox.runCommand(
-                "npm",
-                ["install", "--no-fund", "--no-audit", "--silent", ...packages],
-                { cwd },
-              );
-              const installStdErr = (await install.stderr()).trim();
-              if (install.exitCode !== 0) {
-                return `Package install failed: ${installStdErr || "unknown error"}`;
-              }
-            }
+  const runLimit = await acquireRunLimit(caller);
+  if (!runLimit.ok) {
+    return rateLimitedResponse(runLimit);
+  }
 
-            const result = await activeSandbox.runCommand(
-              "node",
-              ["-e", code],
-              { cwd },
-            );
-            const stdout = (await result.stdout()).trim();
-            const stderr = (await result.stderr()).trim();
+  if (session) {
+    if (session.busy) {
+      await runLimit.release();
+      return NextResponse.json(
+        { error: "Session is already running a turn." },
+        { status: 409 },
+      );
+    }
 
-            if (result.exitCode !== 0) {
-              return `Execution error: ${stderr || stdout || "unknown error"}`;
-            }
+    session.busy = true;
+    session.lastActiveAt = Date.now();
+  }
 
-            return stdout || stderr || "No output produced.";
-          },
-        }),
-      },
-      stopWhen: stepCountIs(6),
-    });
+  const traceId = randomUUID();
+  const sandboxManager = getSandboxManager();
+  sandboxManager.warm();
+  const commandBudget = commandBudgetMs(getExecutionLimits());
+  session?.traceIds.push(traceId);
+
+  const runner = createAgentRunner({
+    createModel: (modelId) => gateway(modelId),
+    sandboxes: session
+      ? sessionSandboxFactory(session, commandBudget)
+      : managedSandboxFactory(sandboxManager, commandBudget),
+    traces: traceRecorder,
+  });
+
+  // Frees the run limit and the session once the run ends, however it ends.
+  const onSettled = async ({
+    messages,
+  }: {
+    messages: ModelMessage[] | null;
+  }) => {
+    await runLimit.release();
+
+    if (session) {
+      if (messages) {
+        session.messages.push(...messages);
+      }
+      session.busy = false;
+      session.lastActiveAt = Date.now();
+    }
+  };
 
-    const result = await agent.stream({
+  try {
+    const run = await runner.run({
+      traceId,
+      ownerId: caller.id,
       prompt: parsed.data.prompt,
+      modelChain,
+      history: session?.messages,
+      uploads: (parsed.data.files ?? []).map((file) => ({
+        name: file.name,
+        content: Buffer.from(file.content, "base64"),
+      })),
+      requireApproval,
+      secrets: secrets.secrets,
+      multiTurn: session !== null,
+      signal: req.signal,
+      onSettled,
     });
 
-    const textStream = new ReadableStream<string>({
-      async start(controller) {
-        try {
-          for await (const part of result.fullStream) {
-            if (part.type === "text-delta") {
-              controller.enqueue(part.text);
-            }
-
-            if (part.type === "tool-call") {
-              appendTraceEvent(traceId, {
-                type: "tool-call",
-                toolCallId: part.toolCallId,
-                toolName: part.toolName,
-                input: part.input,
-                timestamp: Date.now(),
-              });
-            }
-
-            if (part.type === "tool-result") {
-              appendTraceEvent(traceId, {
-                type: "tool-result",
-                toolCallId: part.toolCallId,
-                toolName: part.toolName,
-                output: part.output,
-                timestamp: Date.now(),
-              });
-            }
-
-            if (part.type === "tool-error") {
-              appendTraceEvent(traceId, {
-                type: "tool-error",
-                toolCallId: part.toolCallId,
-                toolName: part.toolName,
-                error:
-                  part.error instanceof Error
-                    ? part.error.message
-                    : String(part.error),
-                timestamp: Date.now(),
-              });
-            }
-
-            if (part.type === "tool-output-denied") {
-              appendTraceEvent(traceId, {
-                type: "tool-output-denied",
-                toolCallId: part.toolCallId,
-                toolName: part.toolName,
-                timestamp: Date.now(),
-              });
-            }
+    const format = resolveStreamFormat(req);
+    const encoder = new TextEncoder();
+    const body = run.events.pipeThrough(
+      new TransformStream<AgentStreamEvent, Uint8Array>({
+        transform(event, controller) {
+          const chunk = encodeStreamEvent(format, event);
+          if (chunk) {
+            controller.enqueue(encoder.encode(chunk));
           }
-        } catch (error) {
-          appendTraceEvent(traceId, {
-            type: "tool-error",
-            error: error instanceof Error ? error.message : String(error),
-            timestamp: Date.now(),
-          });
-        } finally {
-          finishTrace(traceId);
-          controller.close();
-          try {
-            await activeSandbox.stop();
-          } catch (error) {
-            console.error("Failed to stop sandbox:", error);
-          }
-        }
-      },
-      async cancel() {
-        finishTrace(traceId);
-        try {
-          await activeSandbox.stop();
-        } catch (error) {
-          console.error("Failed to stop sandbox:", error);
-        }
-      },
-    });
+        },
+      }),
+    );
 
-    return createTextStreamResponse({
-      textStream,
+    return new Response(body, {
       headers: {
+        "Content-Type": streamContentType(format),
         "X-Trace-Id": traceId,
+        "X-Agent-Model": run.modelId,
+        ...(session ? { "X-Session-Id": session.id } : {}),
         "Cache-Control": "no-store",
       },
     });
   } catch (error) {
     console.error("Sandbox agent failed:", error);
-    finishTrace(traceId);
-    if (sandbox) {
-      try {
-        await sandbox.stop();
-      } catch (stopError) {
-        console.error("Failed to stop sandbox:", stopError);
-      }
-    }
     return NextResponse.json(
       { error: "Agent failed to run in sandbox." },
       { status: 500 },
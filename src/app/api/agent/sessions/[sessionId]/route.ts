@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import {
+  deleteSession,
+  getSession,
+  serializeSession,
+} from "@/lib/agent-sessions";
+import { authenticate, unauthorizedResponse } from "@/lib/agent-auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ sessionId: string }> | { sessionId: string };
+};
+
+export async function GET(req: Request, { params }: RouteContext) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  const { sessionId } = await params;
+  const session = getSession(sessionId);
+
+  if (!session || session.ownerId !== caller.id) {
+    return NextResponse.json({ error: "Session not found." }, { status: 404 });
+  }
+
+  return NextResponse.json(serializeSession(session));
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  const { sessionId } = await params;
+  const session = getSession(sessionId);
+
+  if (!session || session.ownerId !== caller.id) {
+    return NextResponse.json({ error: "Session not found." }, { status: 404 });
+  }
+
+  // Stopping the sandboxes now would kill the running turn partway through.
+  if (session.busy || !(await deleteSession(sessionId))) {
+    return NextResponse.json(
+      { error: "Session is running a turn. Try again when it finishes." },
+      { status: 409 },
+    );
+  }
+
+  return new Response(null, { status: 204 });
+}
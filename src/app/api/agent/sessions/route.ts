@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { createSession, serializeSession } from "@/lib/agent-sessions";
+import { authenticate, unauthorizedResponse } from "@/lib/agent-auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(req: Request) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  const session = createSession(caller.id);
+  return NextResponse.json(serializeSession(session), { status: 201 });
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { decideApproval } from "@/lib/agent-approvals";
+import { authenticate, unauthorizedResponse } from "@/lib/agent-auth";
+import { getTrace } from "@/lib/agent-traces";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const decisionSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+type RouteContext = {
+  params:
+    | Promise<{ traceId: string; toolCallId: string }>
+    | { traceId: string; toolCallId: string };
+};
+
+export async function POST(req: Request, { params }: RouteContext) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  const { traceId, toolCallId } = await params;
+  if (getTrace(traceId)?.ownerId !== caller.id) {
+    return NextResponse.json({ error: "Trace not found." }, { status: 404 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const parsed = decisionSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error:
+          'Invalid request. Expected { decision: "approve" | "reject", reason?: string }.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const approved = parsed.data.decision === "approve";
+  const decided = decideApproval(
+    traceId,
+    toolCallId,
+    approved
+      ? { approved: true }
+      : {
+          approved: false,
+          reason: parsed.data.reason ?? "No reason given.",
+        },
+  );
+
+  if (!decided) {
+    return NextResponse.json(
+      { error: "No pending approval for this tool call." },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({
+    traceId,
+    toolCallId,
+    status: approved ? "approved" : "rejected",
+  });
+}
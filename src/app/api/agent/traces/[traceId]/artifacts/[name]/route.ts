@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { getArtifact, isActiveContentType } from "@/lib/agent-artifacts";
+import { authenticate, unauthorizedResponse } from "@/lib/agent-auth";
+import { getTrace } from "@/lib/agent-traces";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  req: Request,
+  {
+    params,
+  }: {
+    params:
+      | Promise<{ traceId: string; name: string }>
+      | { traceId: string; name: string };
+  },
+) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  const { traceId, name } = await params;
+  const artifact =
+    getTrace(traceId)?.ownerId === caller.id
+      ? getArtifact(traceId, name)
+      : null;
+
+  if (!artifact) {
+    return NextResponse.json({ error: "Artifact not found." }, { status: 404 });
+  }
+
+  return new Response(new Uint8Array(artifact.data), {
+    headers: {
+      "Content-Type": artifact.contentType,
+      "Content-Length": String(artifact.size),
+      "Content-Disposition": `attachment; filename="${encodeURIComponent(artifact.name)}"`,
+      "Cache-Control": "no-store",
+      "X-Content-Type-Options": "nosniff",
+      // HTML and SVG come from model-written code: if a browser renders one
+      // anyway, it gets no scripts and no access to this origin.
+      ...(isActiveContentType(artifact.contentType)
+        ? { "Content-Security-Policy": "sandbox; default-src 'none'" }
+        : {}),
+    },
+  });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { cancelRun } from "@/lib/agent-cancellation";
+import { authenticate, unauthorizedResponse } from "@/lib/agent-auth";
+import { getTrace } from "@/lib/agent-traces";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const cancelSchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+type RouteContext = {
+  params: Promise<{ traceId: string }> | { traceId: string };
+};
+
+/** Stops a run in progress: its model call, approvals and sandbox commands. */
+export async function POST(req: Request, { params }: RouteContext) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  const { traceId } = await params;
+  if (getTrace(traceId)?.ownerId !== caller.id) {
+    return NextResponse.json({ error: "Trace not found." }, { status: 404 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = cancelSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request. Expected { reason?: string }." },
+      { status: 400 },
+    );
+  }
+
+  const reason = parsed.data.reason ?? "Cancelled by the caller.";
+  if (!cancelRun(traceId, reason)) {
+    return NextResponse.json(
+      { error: "Run is not in progress." },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({ traceId, status: "cancelled", reason });
+}
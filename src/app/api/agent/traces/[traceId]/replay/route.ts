@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { POST as runAgent } from "@/app/api/agent/route";
+import { authenticate, unauthorizedResponse } from "@/lib/agent-auth";
+import { runAgentRequest } from "@/lib/agent-requests";
+import { isAllowedModel } from "@/lib/agent-models";
+import { getTrace, markReplay, type AgentTrace } from "@/lib/agent-traces";
+import { diffTraces, replayOffline } from "@/lib/trace-replay";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const replaySchema = z.object({
+  mode: z.enum(["live", "offline"]),
+});
+
+type RouteContext = {
+  params: Promise<{ traceId: string }> | { traceId: string };
+};
+
+// Live replays go through the regular agent route, so they authenticate,
+// count against run limits and record a trace exactly like the original. The
+// model writes new code, so it waits for approval if the original did.
+async function replayLive(req: Request, trace: AgentTrace) {
+  const requireApproval =
+    trace.requireApproval === true ||
+    Boolean(trace.approvals?.length) ||
+    process.env.AGENT_REQUIRE_APPROVAL === "true";
+  const run = await runAgentRequest(runAgent, req, {
+    prompt: trace.prompt,
+    ...(isAllowedModel(trace.model) ? { model: trace.model } : {}),
+    ...(trace.secretNames ? { secrets: trace.secretNames } : {}),
+    ...(requireApproval ? { requireApproval } : {}),
+  });
+  return run.ok ? { replay: getTrace(run.traceId) } : { error: run.response };
+}
+
+export async function POST(req: Request, { params }: RouteContext) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  const { traceId } = await params;
+  const trace = getTrace(traceId);
+  if (!trace || trace.ownerId !== caller.id) {
+    return NextResponse.json({ error: "Trace not found." }, { status: 404 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const parsed = replaySchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request. Expected { mode: "live" | "offline" }.' },
+      { status: 400 },
+    );
+  }
+
+  if (!trace.finishedAt) {
+    return NextResponse.json(
+      { error: "Trace is still running." },
+      { status: 409 },
+    );
+  }
+
+  if (parsed.data.mode === "live" && trace.uploads?.length) {
+    return NextResponse.json(
+      {
+        error:
+          "Traces with uploaded files cannot be replayed live; file contents are not stored.",
+      },
+      { status: 409 },
+    );
+  }
+
+  if (parsed.data.mode === "offline" && trace.truncatedPayloads) {
+    return NextResponse.json(
+      {
+        error:
+          "Trace payloads were truncated. Record traces with AGENT_TRACE_FULL_PAYLOADS=true to replay them offline.",
+      },
+      { status: 409 },
+    );
+  }
+
+  let replay: AgentTrace | null;
+  if (parsed.data.mode === "offline") {
+    replay = await replayOffline(trace, caller.id);
+  } else {
+    const live = await replayLive(req, trace);
+    if (live.error) {
+      return live.error;
+    }
+    replay = live.replay;
+  }
+
+  if (!replay) {
+    return NextResponse.json(
+      { error: "Replay trace was not recorded." },
+      { status: 500 },
+    );
+  }
+
+  markReplay(replay.id, { traceId: trace.id, mode: parsed.data.mode });
+  return NextResponse.json({
+    mode: parsed.data.mode,
+    originalTraceId: trace.id,
+    replayTraceId: replay.id,
+    diff: diffTraces(trace, replay),
+  });
+}
@@ -1,19 +1,26 @@
 import { NextResponse } from "next/server";
 import { getTrace } from "@/lib/agent-traces";
+import { authenticate, unauthorizedResponse } from "@/lib/agent-auth";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function GET(
-  _req: Request,
+  req: Request,
   {
     params,
   }: { params: Promise<{ traceId: string }> | { traceId: string } },
 ) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
   const { traceId } = await params;
   const trace = getTrace(traceId);
 
-  if (!trace) {
+  // Other callers' traces look missing rather than forbidden.
+  if (!trace || trace.ownerId !== caller.id) {
     return NextResponse.json({ error: "Trace not found." }, { status: 404 });
   }
 
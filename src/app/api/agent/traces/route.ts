@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { listTraces } from "@/lib/agent-traces";
+import { authenticate, unauthorizedResponse } from "@/lib/agent-auth";
+import { traceFilterSchema } from "@/lib/trace-filters";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const querySchema = traceFilterSchema.extend({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export async function GET(req: Request) {
+  const caller = authenticate(req);
+  if (!caller) {
+    return unauthorizedResponse();
+  }
+
+  const searchParams = new URL(req.url).searchParams;
+  const parsed = querySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid query.", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  const { offset, limit, ...filter } = parsed.data;
+
+  return NextResponse.json(
+    listTraces({ ...filter, ownerId: caller.id }, { offset, limit }),
+  );
+}
@@ -1,6 +1,9 @@
 "use client";
 
-import { type CSSProperties, useState } from "react";
+import Link from "next/link";
+import { type CSSProperties, useEffect, useState } from "react";
+import type { AgentStreamEvent } from "@/lib/agent-events";
+import type { SandboxExecutionLimits } from "@/lib/sandbox-limits";
 
 const samplePrompts = [
   {
@@ -23,96 +26,431 @@ const samplePrompts = [
   },
 ];
 
+/** What a sandbox call will run, shown while it waits for approval. */
+type StepReview = {
+  code?: string;
+  packages?: string[];
+  /** runProject: the files it writes and the entry file or npm script it runs. */
+  files?: { path: string; content: string }[];
+  entry?: string;
+  script?: string;
+};
+
+type TurnStep = {
+  toolCallId: string;
+  toolName: string;
+  status: "running" | "awaiting-approval" | "done" | "error" | "denied";
+  review?: StepReview;
+};
+
+type ConversationTurn = {
+  id: string;
+  prompt: string;
+  response: string | null;
+  error: string | null;
+  traceId: string | null;
+  steps: TurnStep[];
+  artifacts: string[];
+  cancelReason?: string;
+};
+
+async function encodeFile(file: File) {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return { name: file.name, content: btoa(binary) };
+}
+
+function formatSeconds(ms: number) {
+  return `${Math.round(ms / 100) / 10}s`;
+}
+
+function formatBytes(bytes: number) {
+  return bytes >= 1_000_000
+    ? `${Math.round(bytes / 100_000) / 10} MB`
+    : `${Math.round(bytes / 1000)} KB`;
+}
+
+function reviewOf(input: unknown): StepReview {
+  const fields = (input ?? {}) as Record<string, unknown>;
+  const text = (value: unknown) =>
+    typeof value === "string" ? value : undefined;
+  const files =
+    fields.files && typeof fields.files === "object"
+      ? Object.entries(fields.files as Record<string, unknown>).map(
+          ([path, content]) => ({ path, content: String(content) }),
+        )
+      : undefined;
+
+  return {
+    code: text(fields.code),
+    packages: Array.isArray(fields.packages)
+      ? fields.packages.map(String)
+      : undefined,
+    files,
+    entry: text(fields.entry),
+    script: text(fields.script),
+  };
+}
+
+const toolStepLabels: Record<string, string> = {
+  fetchJson: "Fetching JSON",
+  runInSandbox: "Running code in sandbox",
+  runProject: "Running project in sandbox",
+};
+
 export default function Home() {
   const [prompt, setPrompt] = useState("");
-  const [response, setResponse] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [authRequired, setAuthRequired] = useState(false);
+  const [apiKey, setApiKey] = useState("");
+  // undefined while loading, null when the limits are unavailable.
+  const [limits, setLimits] = useState<
+    SandboxExecutionLimits | null | undefined
+  >(undefined);
+
+  useEffect(() => {
+    fetch("/api/agent/limits")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: SandboxExecutionLimits | null) => setLimits(data))
+      .catch((err) => {
+        console.error(err);
+        setLimits(null);
+      });
+  }, []);
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStopping, setIsStopping] = useState(false);
   const [traceId, setTraceId] = useState<string | null>(null);
   const [trace, setTrace] = useState<Record<string, unknown> | null>(null);
   const [traceError, setTraceError] = useState<string | null>(null);
   const [isTraceLoading, setIsTraceLoading] = useState(false);
 
+  const updateTurn = (turnId: string, patch: Partial<ConversationTurn>) => {
+    setTurns((current) =>
+      current.map((turn) =>
+        turn.id === turnId ? { ...turn, ...patch } : turn,
+      ),
+    );
+  };
+
+  const updateStep = (
+    turnId: string,
+    toolCallId: string,
+    patch: Partial<TurnStep>,
+  ) => {
+    setTurns((current) =>
+      current.map((turn) =>
+        turn.id === turnId
+          ? {
+              ...turn,
+              steps: turn.steps.map((step) =>
+                step.toolCallId === toolCallId ? { ...step, ...patch } : step,
+              ),
+            }
+          : turn,
+      ),
+    );
+  };
+
+  const ensureSession = async () => {
+    if (sessionId) {
+      return sessionId;
+    }
+
+    const res = await fetch("/api/agent/sessions", { method: "POST" });
+    const data = (await res.json()) as { id?: string; error?: string };
+    if (res.status === 401) {
+      setAuthRequired(true);
+    }
+    if (!res.ok || !data.id) {
+      throw new Error(data.error || "Failed to start a session.");
+    }
+
+    setSessionId(data.id);
+    return data.id;
+  };
+
+  const handleSignIn = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+
+    try {
+      const res = await fetch("/api/agent/auth", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apiKey }),
+      });
+      if (!res.ok) {
+        const data = (await res.json()) as { error?: string };
+        setError(data.error || "Sign-in failed.");
+        return;
+      }
+      setApiKey("");
+      setAuthRequired(false);
+    } catch (err) {
+      console.error(err);
+      setError("Sign-in failed.");
+    }
+  };
+
+  const handleNewConversation = async () => {
+    const previousSessionId = sessionId;
+    setSessionId(null);
+    setTurns([]);
+    setError(null);
+    setTraceId(null);
+    setTrace(null);
+    setTraceError(null);
+
+    if (previousSessionId) {
+      try {
+        await fetch(`/api/agent/sessions/${previousSessionId}`, {
+          method: "DELETE",
+        });
+      } catch (err) {
+        console.error(err);
+      }
+    }
+  };
+
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     const trimmed = prompt.trim();
 
     if (!trimmed) {
       setError("Add a prompt to run in the sandbox.");
-      setResponse(null);
       return;
     }
 
+    const turnId = crypto.randomUUID();
     setIsLoading(true);
     setError(null);
-    setResponse(null);
     setTraceId(null);
     setTrace(null);
     setTraceError(null);
+    setPrompt("");
+    const turnAttachments = attachments;
+    setAttachments([]);
+    setTurns((current) => [
+      ...current,
+      {
+        id: turnId,
+        prompt: trimmed,
+        response: null,
+        error: null,
+        traceId: null,
+        steps: [],
+        artifacts: [],
+      },
+    ]);
 
     try {
+      const activeSessionId = await ensureSession();
+      const files = await Promise.all(turnAttachments.map(encodeFile));
       const res = await fetch("/api/agent", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ prompt: trimmed }),
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/x-ndjson",
+        },
+        body: JSON.stringify({
+          prompt: trimmed,
+          sessionId: activeSessionId,
+          ...(files.length > 0 ? { files } : {}),
+          ...(requireApproval ? { requireApproval: true } : {}),
+        }),
       });
 
       const nextTraceId = res.headers.get("x-trace-id");
       if (nextTraceId) {
         setTraceId(nextTraceId);
+        updateTurn(turnId, { traceId: nextTraceId });
       }
 
       if (!res.ok) {
         const contentType = res.headers.get("content-type") || "";
         if (contentType.includes("application/json")) {
           const data = (await res.json()) as { error?: string };
-          setError(data.error || "Sandbox execution failed.");
+          updateTurn(turnId, {
+            error: data.error || "Sandbox execution failed.",
+          });
+          if (res.status === 404) {
+            setSessionId(null);
+          }
+          if (res.status === 401) {
+            setAuthRequired(true);
+          }
         } else {
           const text = await res.text();
-          setError(text || "Sandbox execution failed.");
+          updateTurn(turnId, { error: text || "Sandbox execution failed." });
         }
         return;
       }
 
       if (!res.body) {
-        setError("Streaming response unavailable in this browser.");
+        updateTurn(turnId, {
+          error: "Streaming response unavailable in this browser.",
+        });
         return;
       }
 
       const reader = res.body.getReader();
       const decoder = new TextDecoder();
       let streamedText = "";
+      let buffered = "";
+
+      const handleEvent = (streamEvent: AgentStreamEvent) => {
+        if (streamEvent.type === "text-delta") {
+          streamedText += streamEvent.text;
+          updateTurn(turnId, { response: streamedText });
+        }
+
+        if (streamEvent.type === "tool-call") {
+          const step: TurnStep = {
+            toolCallId: streamEvent.toolCallId,
+            toolName: streamEvent.toolName,
+            status: "running",
+          };
+          setTurns((current) =>
+            current.map((turn) =>
+              turn.id === turnId
+                ? { ...turn, steps: [...turn.steps, step] }
+                : turn,
+            ),
+          );
+        }
+
+        if (streamEvent.type === "tool-result") {
+          updateStep(turnId, streamEvent.toolCallId, { status: "done" });
+        }
+
+        if (streamEvent.type === "tool-error" && streamEvent.toolCallId) {
+          updateStep(turnId, streamEvent.toolCallId, { status: "error" });
+        }
+
+        if (streamEvent.type === "approval-requested") {
+          updateStep(turnId, streamEvent.toolCallId, {
+            status: "awaiting-approval",
+            review: reviewOf(streamEvent.input),
+          });
+        }
+
+        if (streamEvent.type === "tool-output-denied") {
+          updateStep(turnId, streamEvent.toolCallId, { status: "denied" });
+        }
+
+        if (streamEvent.type === "run-cancelled") {
+          updateTurn(turnId, { cancelReason: streamEvent.reason });
+        }
+
+        if (streamEvent.type === "done" && streamEvent.artifacts?.length) {
+          updateTurn(turnId, { artifacts: streamEvent.artifacts });
+        }
+      };
 
       while (true) {
         const { value, done } = await reader.read();
         if (done) {
           break;
         }
-        streamedText += decoder.decode(value, { stream: true });
-        setResponse(streamedText);
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split("\n");
+        buffered = lines.pop() ?? "";
+        for (const line of lines) {
+          if (line.trim()) {
+            handleEvent(JSON.parse(line) as AgentStreamEvent);
+          }
+        }
       }
 
-      streamedText += decoder.decode();
-      setResponse(streamedText || "No response returned.");
+      buffered += decoder.decode();
+      if (buffered.trim()) {
+        handleEvent(JSON.parse(buffered) as AgentStreamEvent);
+      }
+      updateTurn(turnId, { response: streamedText || "No response returned." });
     } catch (err) {
       console.error(err);
-      setError("Request failed. Check the server logs for details.");
+      updateTurn(turnId, {
+        error: "Request failed. Check the server logs for details.",
+      });
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleLoadTrace = async () => {
+  const handleApproval = async (
+    turn: ConversationTurn,
+    toolCallId: string,
+    decision: "approve" | "reject",
+  ) => {
+    if (!turn.traceId) {
+      return;
+    }
+
+    try {
+      const res = await fetch(
+        `/api/agent/traces/${turn.traceId}/approvals/${toolCallId}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ decision }),
+        },
+      );
+      if (!res.ok) {
+        const data = (await res.json()) as { error?: string };
+        setError(data.error || "Failed to send the decision.");
+        return;
+      }
+      updateStep(turn.id, toolCallId, { status: "running" });
+    } catch (err) {
+      console.error(err);
+      setError("Failed to send the decision.");
+    }
+  };
+
+  const handleStop = async () => {
     if (!traceId) {
       return;
     }
 
+    setIsStopping(true);
+    try {
+      const res = await fetch(`/api/agent/traces/${traceId}/cancel`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason: "Stopped from the UI." }),
+      });
+      // 409 means the run finished before the request arrived.
+      if (!res.ok && res.status !== 409) {
+        const data = (await res.json()) as { error?: string };
+        setError(data.error || "Failed to stop the run.");
+      }
+    } catch (err) {
+      console.error(err);
+      setError("Failed to stop the run.");
+    } finally {
+      setIsStopping(false);
+    }
+  };
+
+  const handleLoadTrace = async (targetTraceId: string | null = traceId) => {
+    if (!targetTraceId) {
+      return;
+    }
+
+    setTraceId(targetTraceId);
     setIsTraceLoading(true);
     setTrace(null);
     setTraceError(null);
 
     try {
-      const res = await fetch(`/api/agent/traces/${traceId}`);
+      const res = await fetch(`/api/agent/traces/${targetTraceId}`);
       const data = (await res.json()) as Record<string, unknown> & {
         error?: string;
       };
@@ -157,9 +495,30 @@ export default function Home() {
             style={{ "--delay": "0.12s" } as CSSProperties}
           >
             <div className="font-display text-base text-slate-900">
-              Runtime: node22
+              Runtimes: node22, python3.13
             </div>
-            <div>Timeout: 30s per sandbox</div>
+            {limits ? (
+              <>
+                <div>
+                  Timeout: {formatSeconds(limits.runTimeoutMs)} per run,{" "}
+                  {formatSeconds(limits.installTimeoutMs)} per install
+                </div>
+                <div>
+                  Memory: {limits.memoryMb} MB · Output:{" "}
+                  {formatBytes(limits.maxOutputBytes)} per stream
+                </div>
+              </>
+            ) : (
+              limits === undefined && (
+                <div className="text-slate-400">Loading limits…</div>
+              )
+            )}
+            <Link
+              href="/traces"
+              className="mt-2 inline-block text-xs uppercase tracking-[0.2em] text-slate-500 transition hover:text-slate-900"
+            >
+              Trace explorer
+            </Link>
           </div>
         </header>
 
@@ -168,6 +527,30 @@ export default function Home() {
             className="panel animate-rise rounded-3xl p-6 md:p-8"
             style={{ "--delay": "0.18s" } as CSSProperties}
           >
+            {authRequired && (
+              <form
+                className="mb-6 flex flex-col gap-3 rounded-2xl border border-amber-200/70 bg-amber-50/60 p-4 text-sm text-slate-700"
+                onSubmit={handleSignIn}
+              >
+                <p>This deployment requires an API key.</p>
+                <div className="flex gap-2">
+                  <input
+                    type="password"
+                    value={apiKey}
+                    onChange={(event) => setApiKey(event.target.value)}
+                    placeholder="API key"
+                    className="flex-1 rounded-full border border-slate-200/70 bg-white/80 px-4 py-2 text-sm outline-none focus:border-[var(--accent)]"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!apiKey.trim()}
+                    className="rounded-full bg-[var(--accent)] px-4 py-2 text-xs font-semibold uppercase tracking-[0.2em] text-white transition hover:bg-[var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Sign in
+                  </button>
+                </div>
+              </form>
+            )}
             <form className="flex flex-col gap-6" onSubmit={handleSubmit}>
               <div className="space-y-3">
                 <h2 className="font-display text-2xl text-slate-900">
@@ -189,6 +572,38 @@ export default function Home() {
                   value={prompt}
                   onChange={(event) => setPrompt(event.target.value)}
                 />
+                <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500">
+                  <label className="cursor-pointer rounded-full border border-slate-200/70 bg-white/80 px-4 py-2 font-medium text-slate-700 transition hover:border-[var(--accent)] hover:text-slate-900">
+                    Attach files
+                    <input
+                      type="file"
+                      multiple
+                      className="hidden"
+                      onChange={(event) => {
+                        setAttachments(
+                          Array.from(event.target.files ?? []).slice(0, 5),
+                        );
+                        event.target.value = "";
+                      }}
+                    />
+                  </label>
+                  {attachments.length > 0 && (
+                    <span>
+                      {attachments.map((file) => file.name).join(", ")}
+                    </span>
+                  )}
+                  <label className="flex cursor-pointer items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={requireApproval}
+                      onChange={(event) =>
+                        setRequireApproval(event.target.checked)
+                      }
+                      className="accent-[var(--accent)]"
+                    />
+                    Review code before it runs
+                  </label>
+                </div>
               </div>
 
               <div className="flex flex-wrap gap-2">
@@ -205,15 +620,41 @@ export default function Home() {
               </div>
 
               <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
-                <button
-                  type="submit"
-                  disabled={isLoading}
-                  className="rounded-full bg-[var(--accent)] px-6 py-3 text-sm font-semibold text-white shadow-[0_18px_30px_rgba(233,115,46,0.35)] transition hover:bg-[var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
-                >
-                  {isLoading ? "Running in sandbox..." : "Run in Sandbox"}
-                </button>
-                <div className="text-xs text-slate-500">
-                  Sandbox filesystem resets after execution.
+                <div className="flex items-center gap-3">
+                  <button
+                    type="submit"
+                    disabled={isLoading}
+                    className="rounded-full bg-[var(--accent)] px-6 py-3 text-sm font-semibold text-white shadow-[0_18px_30px_rgba(233,115,46,0.35)] transition hover:bg-[var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {isLoading ? "Running in sandbox..." : "Run in Sandbox"}
+                  </button>
+                  {isLoading && traceId && (
+                    <button
+                      type="button"
+                      onClick={handleStop}
+                      disabled={isStopping}
+                      className="rounded-full border border-rose-200 bg-white/80 px-5 py-3 text-sm font-semibold text-rose-600 transition hover:border-rose-400 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      {isStopping ? "Stopping..." : "Stop"}
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 text-xs text-slate-500">
+                  <span>
+                    {sessionId
+                      ? "Sandbox files persist until you start over."
+                      : "A session starts with your first message."}
+                  </span>
+                  {turns.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={handleNewConversation}
+                      disabled={isLoading}
+                      className="rounded-full border border-slate-200/70 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-700 transition hover:border-[var(--accent)] hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      New conversation
+                    </button>
+                  )}
                 </div>
               </div>
             </form>
@@ -225,36 +666,173 @@ export default function Home() {
           >
             <div className="mb-4 flex items-center justify-between">
               <h2 className="font-display text-xl text-slate-900">
-                Execution Output
+                Conversation
               </h2>
               <span className="text-xs uppercase tracking-[0.2em] text-slate-500">
-                JSON
+                {turns.length} {turns.length === 1 ? "turn" : "turns"}
               </span>
             </div>
             <div
               className="min-h-[260px] rounded-2xl border border-slate-200/70 bg-white/70 p-4 font-mono text-sm text-slate-700"
               aria-live="polite"
             >
-              {isLoading && (
-                <p className="text-slate-500">Sandbox spinning up...</p>
-              )}
-              {!isLoading && !response && !error && (
+              {turns.length === 0 && !error && (
                 <p className="text-slate-500">
                   Output will appear here after execution.
                 </p>
               )}
-              {!isLoading && error && (
-                <p className="text-rose-600">{error}</p>
-              )}
-              {!isLoading && response && (
-                <pre className="whitespace-pre-wrap">{response}</pre>
-              )}
+              {error && <p className="text-rose-600">{error}</p>}
+              <div className="flex flex-col gap-4">
+                {turns.map((turn) => (
+                  <div key={turn.id} className="space-y-2">
+                    <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      You
+                    </p>
+                    <pre className="whitespace-pre-wrap text-slate-900">
+                      {turn.prompt}
+                    </pre>
+                    <div className="flex items-center justify-between gap-3">
+                      <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                        Agent
+                      </p>
+                      {turn.traceId && (
+                        <button
+                          type="button"
+                          onClick={() => handleLoadTrace(turn.traceId)}
+                          disabled={isTraceLoading}
+                          className="text-[11px] uppercase tracking-[0.2em] text-slate-500 transition hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
+                        >
+                          Trace
+                        </button>
+                      )}
+                    </div>
+                    {turn.steps.length > 0 && (
+                      <ul className="space-y-1 text-xs text-slate-500">
+                        {turn.steps.map((step) => (
+                          <li
+                            key={step.toolCallId}
+                            className="flex flex-wrap items-center gap-2"
+                          >
+                            <span
+                              className={`h-1.5 w-1.5 rounded-full ${
+                                step.status === "running" ||
+                                step.status === "awaiting-approval"
+                                  ? "animate-pulse bg-[var(--accent)]"
+                                  : step.status === "error"
+                                    ? "bg-rose-500"
+                                    : step.status === "denied"
+                                      ? "bg-amber-500"
+                                      : "bg-emerald-500"
+                              }`}
+                            />
+                            {toolStepLabels[step.toolName] ?? step.toolName}
+                            {step.status === "running" ? "…" : ""}
+                            {step.status === "error" ? " failed" : ""}
+                            {step.status === "denied" ? " denied" : ""}
+                            {step.status === "awaiting-approval" && (
+                              <div className="w-full space-y-2 pl-3.5">
+                                <span>Waiting for your approval</span>
+                                {step.review?.packages?.length ? (
+                                  <p>
+                                    Installs {step.review.packages.join(", ")}
+                                  </p>
+                                ) : null}
+                                {step.review?.code && (
+                                  <pre className="max-h-52 overflow-auto whitespace-pre-wrap rounded-xl border border-slate-200/70 bg-white/80 p-3 text-[12px] text-slate-700">
+                                    {step.review.code}
+                                  </pre>
+                                )}
+                                {step.review?.files?.map((file) => (
+                                  <div key={file.path} className="space-y-1">
+                                    <span className="font-mono text-slate-700">
+                                      {file.path}
+                                    </span>
+                                    <pre className="max-h-52 overflow-auto whitespace-pre-wrap rounded-xl border border-slate-200/70 bg-white/80 p-3 text-[12px] text-slate-700">
+                                      {file.content}
+                                    </pre>
+                                  </div>
+                                ))}
+                                {(step.review?.script ||
+                                  step.review?.entry) && (
+                                  <p>
+                                    Runs{" "}
+                                    <span className="font-mono text-slate-700">
+                                      {step.review.script
+                                        ? `npm run ${step.review.script}`
+                                        : step.review.entry}
+                                    </span>
+                                  </p>
+                                )}
+                                <div className="flex gap-2">
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      handleApproval(
+                                        turn,
+                                        step.toolCallId,
+                                        "approve",
+                                      )
+                                    }
+                                    className="rounded-full bg-[var(--accent)] px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-white transition hover:bg-[var(--accent-strong)]"
+                                  >
+                                    Approve
+                                  </button>
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      handleApproval(
+                                        turn,
+                                        step.toolCallId,
+                                        "reject",
+                                      )
+                                    }
+                                    className="rounded-full border border-slate-200/70 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-700 transition hover:border-rose-400 hover:text-rose-600"
+                                  >
+                                    Reject
+                                  </button>
+                                </div>
+                              </div>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {turn.error && (
+                      <p className="text-rose-600">{turn.error}</p>
+                    )}
+                    {!turn.error && turn.response && (
+                      <pre className="whitespace-pre-wrap">{turn.response}</pre>
+                    )}
+                    {!turn.error && !turn.response && (
+                      <p className="text-slate-500">Sandbox spinning up...</p>
+                    )}
+                    {turn.cancelReason && (
+                      <p className="text-xs text-amber-700">
+                        Run cancelled: {turn.cancelReason}
+                      </p>
+                    )}
+                    {turn.traceId && turn.artifacts.length > 0 && (
+                      <div className="flex flex-wrap gap-2 text-xs">
+                        {turn.artifacts.map((name) => (
+                          <a
+                            key={name}
+                            href={`/api/agent/traces/${turn.traceId}/artifacts/${encodeURIComponent(name)}`}
+                            className="rounded-full border border-slate-200/70 bg-white/80 px-3 py-1 text-slate-700 transition hover:border-[var(--accent)] hover:text-slate-900"
+                          >
+                            {name}
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
             </div>
             <div className="mt-6 space-y-3 text-sm text-slate-600">
               <div className="flex items-start gap-3">
                 <span className="mt-2 h-2 w-2 rounded-full bg-[var(--accent)]" />
                 <p>
-                  Each request creates an ephemeral microVM to contain the
+                  Each conversation gets its own microVM to contain the
                   execution.
                 </p>
               </div>
@@ -268,7 +846,8 @@ export default function Home() {
               <div className="flex items-start gap-3">
                 <span className="mt-2 h-2 w-2 rounded-full bg-[var(--accent)]" />
                 <p>
-                  The VM is disposed automatically after the response returns.
+                  The VM is disposed when you start over or the session goes
+                  idle.
                 </p>
               </div>
             </div>
@@ -280,7 +859,7 @@ export default function Home() {
                   </span>
                   <button
                     type="button"
-                    onClick={handleLoadTrace}
+                    onClick={() => handleLoadTrace()}
                     disabled={isTraceLoading}
                     className="rounded-full border border-slate-200/70 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-700 transition hover:border-[var(--accent)] hover:text-slate-900 disabled:cursor-not-allowed disabled:opacity-60"
                   >
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+
+const JS_KEYWORDS = new Set([
+  "async",
+  "await",
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "default",
+  "else",
+  "export",
+  "false",
+  "for",
+  "from",
+  "function",
+  "if",
+  "import",
+  "in",
+  "let",
+  "new",
+  "null",
+  "of",
+  "return",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "typeof",
+  "undefined",
+  "var",
+  "while",
+]);
+
+const PYTHON_KEYWORDS = new Set([
+  "False",
+  "None",
+  "True",
+  "and",
+  "as",
+  "async",
+  "await",
+  "break",
+  "class",
+  "continue",
+  "def",
+  "del",
+  "elif",
+  "else",
+  "except",
+  "finally",
+  "for",
+  "from",
+  "global",
+  "if",
+  "import",
+  "in",
+  "is",
+  "lambda",
+  "nonlocal",
+  "not",
+  "or",
+  "pass",
+  "raise",
+  "return",
+  "try",
+  "while",
+  "with",
+  "yield",
+]);
+
+// Each pattern captures, in order: comment, string, number, word.
+const GRAMMARS = {
+  javascript: {
+    pattern:
+      /(\/\/[^\n]*|\/\*[\s\S]*?\*\/)|("(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|`(?:\\.|[^`\\])*`)|(\b\d+(?:\.\d+)?\b)|([A-Za-z_$][\w$]*)/g,
+    keywords: JS_KEYWORDS,
+  },
+  python: {
+    pattern:
+      /(#[^\n]*)|((?:\b[rRbBfFuU]{1,2})?(?:"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'))|(\b\d+(?:\.\d+)?\b)|([A-Za-z_][\w]*)/g,
+    keywords: PYTHON_KEYWORDS,
+  },
+};
+
+const TOKEN_CLASSES = {
+  comment: "text-slate-400 italic",
+  string: "text-emerald-700",
+  number: "text-sky-700",
+  keyword: "text-[var(--accent-strong)] font-semibold",
+} as const;
+
+type Token = { text: string; kind?: keyof typeof TOKEN_CLASSES };
+
+/**
+ * Small regex tokenizer for JavaScript, TypeScript and Python. It only colors
+ * comments, strings, numbers and keywords, which is enough to scan generated
+ * sandbox code.
+ */
+function tokenize(code: string, language: string): Token[] {
+  const grammar = language === "python" ? GRAMMARS.python : GRAMMARS.javascript;
+  const tokens: Token[] = [];
+  let lastIndex = 0;
+
+  for (const match of code.matchAll(grammar.pattern)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      tokens.push({ text: code.slice(lastIndex, index) });
+    }
+
+    const [text, comment, string, number, word] = match;
+    if (comment) {
+      tokens.push({ text, kind: "comment" });
+    } else if (string) {
+      tokens.push({ text, kind: "string" });
+    } else if (number) {
+      tokens.push({ text, kind: "number" });
+    } else if (word && grammar.keywords.has(word)) {
+      tokens.push({ text, kind: "keyword" });
+    } else {
+      tokens.push({ text });
+    }
+
+    lastIndex = index + text.length;
+  }
+
+  if (lastIndex < code.length) {
+    tokens.push({ text: code.slice(lastIndex) });
+  }
+
+  return tokens;
+}
+
+export function CodeBlock({
+  code,
+  language = "javascript",
+}: {
+  code: string;
+  /** A `runInSandbox` language; anything but `python` is tokenized as JavaScript. */
+  language?: string;
+}) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="absolute right-2 top-2 rounded-full border border-slate-200/70 bg-white/90 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.2em] text-slate-600 transition hover:border-[var(--accent)] hover:text-slate-900"
+      >
+        {copied ? "Copied" : "Copy"}
+      </button>
+      <pre className="max-h-80 overflow-auto rounded-xl border border-slate-200/70 bg-white/80 p-3 pr-20 font-mono text-[12px] leading-relaxed text-slate-800">
+        <code>
+          {tokenize(code, language).map((token, index) =>
+            token.kind ? (
+              <span key={index} className={TOKEN_CLASSES[token.kind]}>
+                {token.text}
+              </span>
+            ) : (
+              token.text
+            ),
+          )}
+        </code>
+      </pre>
+    </div>
+  );
+}
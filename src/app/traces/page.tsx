@@ -0,0 +1,527 @@
+"use client";
+
+import Link from "next/link";
+import { type CSSProperties, useCallback, useEffect, useState } from "react";
+import type { AgentTrace, TraceEvent, TraceSummary } from "@/lib/agent-traces";
+import { CodeBlock } from "./code-block";
+
+type TimelineEntry =
+  | {
+      kind: "tool";
+      toolCallId: string;
+      toolName: string;
+      input: unknown;
+      startedAt: number;
+      outcome?:
+        | { type: "tool-result"; output: unknown; timestamp: number }
+        | { type: "tool-error"; error: string; timestamp: number }
+        | { type: "tool-output-denied"; reason?: string; timestamp: number };
+    }
+  | { kind: "error"; error: string; timestamp: number }
+  | { kind: "cancelled"; reason: string; timestamp: number }
+  | { kind: "note"; text: string; timestamp: number };
+
+/** One-line summaries for lifecycle events; step starts are left out. */
+function lifecycleNote(event: TraceEvent) {
+  switch (event.type) {
+    case "sandbox-created":
+      return `${event.session ? "Session sandbox" : "Sandbox"} ${event.sandboxId} ready for ${event.runtime} in ${formatDuration(event.durationMs)}`;
+    case "sandbox-stopped":
+      return `Sandbox ${event.sandboxId} stopped in ${formatDuration(event.durationMs)}`;
+    case "step-finish":
+      return `Step ${event.step + 1} finished: ${event.finishReason}`;
+    case "install-result":
+      return `${event.packageManager} install ${event.packages.join(", ")}: ${
+        event.cacheHit
+          ? "restored from cache"
+          : event.timedOut
+            ? "timed out"
+            : `exit ${event.exitCode}`
+      } in ${formatDuration(event.durationMs)}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Pairs each tool-call with the result, error or denial that shares its
+ * toolCallId. Errors without a call (stream failures), cancellations and
+ * lifecycle events stay as their own rows.
+ */
+function buildTimeline(events: TraceEvent[]) {
+  const entries: TimelineEntry[] = [];
+  const calls = new Map<string, Extract<TimelineEntry, { kind: "tool" }>>();
+
+  for (const event of events) {
+    if (event.type === "tool-call") {
+      const entry: TimelineEntry = {
+        kind: "tool",
+        toolCallId: event.toolCallId,
+        toolName: event.toolName,
+        input: event.input,
+        startedAt: event.timestamp,
+      };
+      calls.set(event.toolCallId, entry);
+      entries.push(entry);
+      continue;
+    }
+
+    if (event.type === "run-cancelled") {
+      entries.push({
+        kind: "cancelled",
+        reason: event.reason,
+        timestamp: event.timestamp,
+      });
+      continue;
+    }
+
+    if (
+      event.type !== "tool-result" &&
+      event.type !== "tool-error" &&
+      event.type !== "tool-output-denied"
+    ) {
+      const text = lifecycleNote(event);
+      if (text) {
+        entries.push({ kind: "note", text, timestamp: event.timestamp });
+      }
+      continue;
+    }
+
+    const call = event.toolCallId ? calls.get(event.toolCallId) : undefined;
+    if (!call) {
+      if (event.type === "tool-error") {
+        entries.push({
+          kind: "error",
+          error: event.error,
+          timestamp: event.timestamp,
+        });
+      }
+      continue;
+    }
+
+    if (event.type === "tool-result") {
+      call.outcome = {
+        type: "tool-result",
+        output: event.output,
+        timestamp: event.timestamp,
+      };
+    } else if (event.type === "tool-error") {
+      call.outcome = {
+        type: "tool-error",
+        error: event.error,
+        timestamp: event.timestamp,
+      };
+    } else {
+      call.outcome = {
+        type: "tool-output-denied",
+        reason: event.reason,
+        timestamp: event.timestamp,
+      };
+    }
+  }
+
+  return entries;
+}
+
+function formatDuration(ms: number | null | undefined) {
+  if (ms === null || ms === undefined) {
+    return "running";
+  }
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function sandboxCode(input: unknown) {
+  if (input && typeof input === "object" && "code" in input) {
+    const { code } = input as { code: unknown };
+    return typeof code === "string" ? code : null;
+  }
+  return null;
+}
+
+function sandboxLanguage(input: unknown) {
+  if (input && typeof input === "object" && "language" in input) {
+    const { language } = input as { language: unknown };
+    return typeof language === "string" ? language : undefined;
+  }
+  return undefined;
+}
+
+function formatValue(value: unknown) {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+const outcomeStyles = {
+  "tool-result": "bg-emerald-500",
+  "tool-error": "bg-rose-500",
+  "tool-output-denied": "bg-amber-500",
+  pending: "animate-pulse bg-[var(--accent)]",
+} as const;
+
+export default function TracesPage() {
+  const [summaries, setSummaries] = useState<TraceSummary[]>([]);
+  const [query, setQuery] = useState("");
+  const [status, setStatus] = useState("");
+  const [listError, setListError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [trace, setTrace] = useState<AgentTrace | null>(null);
+  const [traceError, setTraceError] = useState<string | null>(null);
+  const [isRerunning, setIsRerunning] = useState(false);
+
+  const loadSummaries = useCallback(async () => {
+    const params = new URLSearchParams({ limit: "50" });
+    if (query.trim()) {
+      params.set("q", query.trim());
+    }
+    if (status) {
+      params.set("status", status);
+    }
+
+    try {
+      const res = await fetch(`/api/agent/traces?${params}`);
+      const data = (await res.json()) as {
+        traces?: TraceSummary[];
+        error?: string;
+      };
+      if (!res.ok || !data.traces) {
+        setListError(data.error || "Failed to load traces.");
+        return;
+      }
+      setListError(null);
+      setSummaries(data.traces);
+    } catch (err) {
+      console.error(err);
+      setListError("Failed to load traces.");
+    }
+  }, [query, status]);
+
+  const loadTrace = useCallback(async (traceId: string) => {
+    setSelectedId(traceId);
+    setTrace(null);
+    setTraceError(null);
+
+    try {
+      const res = await fetch(`/api/agent/traces/${traceId}`);
+      const data = (await res.json()) as AgentTrace & { error?: string };
+      if (!res.ok) {
+        setTraceError(data.error || "Trace not available.");
+        return;
+      }
+      setTrace(data);
+    } catch (err) {
+      console.error(err);
+      setTraceError("Failed to load trace.");
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => void loadSummaries(), 250);
+    return () => clearTimeout(timer);
+  }, [loadSummaries]);
+
+  const handleRerun = async () => {
+    if (!trace) {
+      return;
+    }
+
+    setIsRerunning(true);
+    try {
+      const res = await fetch("/api/agent", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prompt: trace.prompt }),
+      });
+      const nextTraceId = res.headers.get("x-trace-id");
+      await res.text();
+      await loadSummaries();
+      if (nextTraceId) {
+        await loadTrace(nextTraceId);
+      }
+    } catch (err) {
+      console.error(err);
+      setTraceError("Re-run failed. Check the server logs for details.");
+    } finally {
+      setIsRerunning(false);
+    }
+  };
+
+  const timeline = trace ? buildTimeline(trace.events) : [];
+
+  return (
+    <div className="page-background relative min-h-screen overflow-hidden">
+      <div className="grid-overlay pointer-events-none absolute inset-0 opacity-40" />
+      <main className="relative mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 pb-20 pt-14 md:px-10">
+        <header
+          className="flex flex-col gap-3 animate-rise md:flex-row md:items-end md:justify-between"
+          style={{ "--delay": "0.05s" } as CSSProperties}
+        >
+          <div className="space-y-2">
+            <div className="text-xs uppercase tracking-[0.3em] text-slate-600">
+              Trace explorer
+            </div>
+            <h1 className="font-display text-3xl text-slate-900 md:text-4xl">
+              What the agent actually ran.
+            </h1>
+          </div>
+          <Link
+            href="/"
+            className="text-sm text-slate-600 underline-offset-4 hover:text-slate-900 hover:underline"
+          >
+            Back to the sandbox
+          </Link>
+        </header>
+
+        <div className="grid gap-8 lg:grid-cols-[0.8fr_1.2fr]">
+          <section
+            className="panel animate-rise rounded-3xl p-6"
+            style={{ "--delay": "0.12s" } as CSSProperties}
+          >
+            <div className="mb-4 flex flex-col gap-2 sm:flex-row">
+              <input
+                className="flex-1 rounded-full border border-slate-200/70 bg-white/70 px-4 py-2 text-sm text-slate-800 outline-none transition focus:border-[var(--accent)]"
+                placeholder="Search prompts"
+                value={query}
+                onChange={(event) => setQuery(event.target.value)}
+              />
+              <select
+                className="rounded-full border border-slate-200/70 bg-white/70 px-4 py-2 text-sm text-slate-700 outline-none"
+                value={status}
+                onChange={(event) => setStatus(event.target.value)}
+              >
+                <option value="">All runs</option>
+                <option value="succeeded">Succeeded</option>
+                <option value="errored">Errored</option>
+              </select>
+            </div>
+            {listError && <p className="text-sm text-rose-600">{listError}</p>}
+            {!listError && summaries.length === 0 && (
+              <p className="text-sm text-slate-500">No traces recorded yet.</p>
+            )}
+            <ul className="flex flex-col gap-2">
+              {summaries.map((summary) => (
+                <li key={summary.id}>
+                  <button
+                    type="button"
+                    onClick={() => loadTrace(summary.id)}
+                    className={`w-full rounded-2xl border px-4 py-3 text-left text-sm transition ${
+                      selectedId === summary.id
+                        ? "border-[var(--accent)] bg-white"
+                        : "border-slate-200/70 bg-white/60 hover:border-slate-300"
+                    }`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={`h-2 w-2 shrink-0 rounded-full ${
+                          summary.hasError ? "bg-rose-500" : "bg-emerald-500"
+                        }`}
+                      />
+                      <span className="truncate text-slate-900">
+                        {summary.prompt}
+                      </span>
+                    </div>
+                    <div className="mt-1 flex flex-wrap gap-3 text-xs text-slate-500">
+                      <span>
+                        {new Date(summary.startedAt).toLocaleString()}
+                      </span>
+                      <span>{formatDuration(summary.durationMs)}</span>
+                      <span>{summary.eventCounts["tool-call"]} tool calls</span>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section
+            className="panel animate-rise rounded-3xl p-6"
+            style={{ "--delay": "0.18s" } as CSSProperties}
+          >
+            {!selectedId && (
+              <p className="text-sm text-slate-500">
+                Pick a run to see its step timeline.
+              </p>
+            )}
+            {traceError && (
+              <p className="text-sm text-rose-600">{traceError}</p>
+            )}
+            {trace && (
+              <div className="flex flex-col gap-6">
+                <div className="space-y-3">
+                  <p className="text-base text-slate-900">{trace.prompt}</p>
+                  <div className="flex flex-wrap gap-3 text-xs text-slate-500">
+                    <span>Model: {trace.model}</span>
+                    {trace.status && <span>Status: {trace.status}</span>}
+                    <span>
+                      Sandbox:{" "}
+                      <span className="font-mono">
+                        {trace.sandboxId ?? "not used"}
+                      </span>
+                    </span>
+                    {trace.usage && (
+                      <span>
+                        Tokens: {trace.usage.inputTokens ?? 0} in /{" "}
+                        {trace.usage.outputTokens ?? 0} out
+                      </span>
+                    )}
+                    {typeof trace.costUsd === "number" && (
+                      <span>Cost: ${trace.costUsd.toFixed(5)}</span>
+                    )}
+                    <span>
+                      Duration:{" "}
+                      {formatDuration(
+                        trace.finishedAt !== undefined
+                          ? trace.finishedAt - trace.startedAt
+                          : null,
+                      )}
+                    </span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleRerun}
+                    disabled={isRerunning}
+                    className="rounded-full bg-[var(--accent)] px-4 py-2 text-xs font-semibold text-white transition hover:bg-[var(--accent-strong)] disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {isRerunning ? "Re-running..." : "Re-run prompt"}
+                  </button>
+                </div>
+
+                {!timeline.some((entry) => entry.kind === "tool") && (
+                  <p className="text-sm text-slate-500">
+                    The agent answered without calling any tools.
+                  </p>
+                )}
+                <ol className="flex flex-col gap-4 border-l border-slate-200 pl-5">
+                  {timeline.map((entry, index) => {
+                    if (entry.kind === "error") {
+                      return (
+                        <li
+                          key={`error-${index}`}
+                          className="relative text-sm text-rose-600"
+                        >
+                          <span className="absolute -left-[25px] top-1.5 h-2 w-2 rounded-full bg-rose-500" />
+                          Run error: {entry.error}
+                        </li>
+                      );
+                    }
+
+                    if (entry.kind === "note") {
+                      return (
+                        <li
+                          key={`note-${index}`}
+                          className="relative text-xs text-slate-500"
+                        >
+                          <span className="absolute -left-[24px] top-1 h-1.5 w-1.5 rounded-full bg-slate-300" />
+                          {entry.text}
+                        </li>
+                      );
+                    }
+
+                    if (entry.kind === "cancelled") {
+                      return (
+                        <li
+                          key={`cancelled-${index}`}
+                          className="relative text-sm text-amber-700"
+                        >
+                          <span className="absolute -left-[25px] top-1.5 h-2 w-2 rounded-full bg-amber-500" />
+                          Run cancelled: {entry.reason}
+                        </li>
+                      );
+                    }
+
+                    const code =
+                      entry.toolName === "runInSandbox"
+                        ? sandboxCode(entry.input)
+                        : null;
+                    const project = trace?.sandboxRuns?.find(
+                      (run) => run.toolCallId === entry.toolCallId,
+                    )?.project;
+                    const outcomeType = entry.outcome?.type ?? "pending";
+                    const awaitingApproval = trace?.approvals?.some(
+                      (approval) =>
+                        approval.toolCallId === entry.toolCallId &&
+                        approval.status === "pending",
+                    );
+
+                    return (
+                      <li key={entry.toolCallId} className="relative space-y-2">
+                        <span
+                          className={`absolute -left-[25px] top-1.5 h-2 w-2 rounded-full ${outcomeStyles[outcomeType]}`}
+                        />
+                        <div className="flex flex-wrap items-baseline gap-3 text-sm">
+                          <span className="font-semibold text-slate-900">
+                            {entry.toolName}
+                          </span>
+                          <span className="text-xs text-slate-500">
+                            {entry.outcome
+                              ? formatDuration(
+                                  entry.outcome.timestamp - entry.startedAt,
+                                )
+                              : awaitingApproval
+                                ? "waiting for approval"
+                                : "no result recorded"}
+                          </span>
+                        </div>
+                        {project && (
+                          <ul className="rounded-xl bg-white/70 p-3 font-mono text-[12px] text-slate-700">
+                            {project.files.map((file) => (
+                              <li key={file.path}>
+                                {file.path}{" "}
+                                <span className="text-slate-400">
+                                  {file.size} B
+                                  {file.path === project.entry && " · entry"}
+                                </span>
+                              </li>
+                            ))}
+                            {project.script && (
+                              <li className="text-slate-500">
+                                npm run {project.script}
+                              </li>
+                            )}
+                          </ul>
+                        )}
+                        {code ? (
+                          <CodeBlock
+                            code={code}
+                            language={sandboxLanguage(entry.input)}
+                          />
+                        ) : (
+                          <pre className="overflow-auto rounded-xl bg-white/70 p-3 font-mono text-[12px] text-slate-700">
+                            {formatValue(entry.input)}
+                          </pre>
+                        )}
+                        {entry.outcome?.type === "tool-result" && (
+                          <pre className="max-h-52 overflow-auto whitespace-pre-wrap rounded-xl border border-emerald-200/70 bg-emerald-50/60 p-3 font-mono text-[12px] text-slate-700">
+                            {formatValue(entry.outcome.output)}
+                          </pre>
+                        )}
+                        {entry.outcome?.type === "tool-error" && (
+                          <p className="text-sm text-rose-600">
+                            {entry.outcome.error}
+                          </p>
+                        )}
+                        {entry.outcome?.type === "tool-output-denied" && (
+                          <p className="text-sm text-amber-700">
+                            {entry.outcome.reason ?? "Output denied."}
+                          </p>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+                {trace.answer && (
+                  <div className="space-y-2">
+                    <p className="text-xs uppercase tracking-[0.2em] text-slate-500">
+                      Final answer
+                    </p>
+                    <pre className="whitespace-pre-wrap rounded-xl bg-white/70 p-3 font-mono text-[12px] text-slate-700">
+                      {trace.answer}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            )}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+export type ApprovalDecision =
+  { approved: true } | { approved: false; reason: string };
+
+type PendingApproval = {
+  resolve: (decision: ApprovalDecision) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+export const APPROVAL_TIMEOUT_MS = 10 * 60_000;
+
+const globalForApprovals = globalThis as typeof globalThis & {
+  __agentPendingApprovals?: Map<string, PendingApproval>;
+};
+
+const pendingApprovals =
+  globalForApprovals.__agentPendingApprovals ??
+  new Map<string, PendingApproval>();
+
+globalForApprovals.__agentPendingApprovals = pendingApprovals;
+
+function approvalKey(traceId: string, toolCallId: string) {
+  return `${traceId}:${toolCallId}`;
+}
+
+/**
+ * Parks a tool call until someone decides on it. Calls nobody answers within
+ * `APPROVAL_TIMEOUT_MS` are rejected so the run and its sandbox do not hang.
+ */
+export function waitForApproval(traceId: string, toolCallId: string) {
+  const key = approvalKey(traceId, toolCallId);
+
+  return new Promise<ApprovalDecision>((resolve) => {
+    const timer = setTimeout(() => {
+      pendingApprovals.delete(key);
+      resolve({
+        approved: false,
+        reason: `No decision within ${APPROVAL_TIMEOUT_MS / 60_000} minutes.`,
+      });
+    }, APPROVAL_TIMEOUT_MS);
+
+    pendingApprovals.set(key, { resolve, timer });
+  });
+}
+
+/** Returns false when no call with that id is waiting. */
+export function decideApproval(
+  traceId: string,
+  toolCallId: string,
+  decision: ApprovalDecision,
+) {
+  const key = approvalKey(traceId, toolCallId);
+  const pending = pendingApprovals.get(key);
+  if (!pending) {
+    return false;
+  }
+
+  pendingApprovals.delete(key);
+  clearTimeout(pending.timer);
+  pending.resolve(decision);
+  return true;
+}
+
+/** Rejects every call still waiting on a run, e.g. when its client goes away. */
+export function cancelApprovals(traceId: string, reason: string) {
+  for (const key of [...pendingApprovals.keys()]) {
+    if (key.startsWith(`${traceId}:`)) {
+      const toolCallId = key.slice(traceId.length + 1);
+      decideApproval(traceId, toolCallId, { approved: false, reason });
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import type { SandboxInstance } from "@/lib/sandbox-manager";
+
+export type ArtifactInfo = {
+  name: string;
+  size: number;
+  contentType: string;
+};
+
+type StoredArtifact = ArtifactInfo & { data: Buffer };
+
+type ArtifactStore = {
+  artifacts: Map<string, StoredArtifact[]>;
+  order: string[];
+};
+
+export const ARTIFACT_DIR = "out";
+const MAX_ARTIFACT_TRACES = 25;
+const MAX_ARTIFACTS_PER_RUN = 10;
+const MAX_ARTIFACT_BYTES = 5 * 1024 * 1024;
+/** All runs' artifacts together; the oldest runs' files go first. */
+const MAX_ARTIFACT_STORE_BYTES = 100 * 1024 * 1024;
+
+const CONTENT_TYPES: Record<string, string> = {
+  csv: "text/csv",
+  gif: "image/gif",
+  html: "text/html",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  json: "application/json",
+  md: "text/markdown",
+  pdf: "application/pdf",
+  png: "image/png",
+  svg: "image/svg+xml",
+  txt: "text/plain",
+};
+
+const globalForArtifacts = globalThis as typeof globalThis & {
+  __agentArtifactStore?: ArtifactStore;
+};
+
+const artifactStore: ArtifactStore =
+  globalForArtifacts.__agentArtifactStore ?? {
+    artifacts: new Map<string, StoredArtifact[]>(),
+    order: [],
+  };
+
+globalForArtifacts.__agentArtifactStore = artifactStore;
+
+function contentTypeFor(name: string) {
+  const extension = name.split(".").pop()?.toLowerCase() ?? "";
+  return CONTENT_TYPES[extension] ?? "application/octet-stream";
+}
+
+function isTextType(contentType: string) {
+  return (
+    contentType.startsWith("text/") ||
+    contentType === "application/json" ||
+    contentType === "image/svg+xml"
+  );
+}
+
+/** Types a browser would run scripts in if it rendered them. */
+export function isActiveContentType(contentType: string) {
+  return contentType === "text/html" || contentType === "image/svg+xml";
+}
+
+async function readStream(stream: NodeJS.ReadableStream) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Reads the top-level files the run wrote to `out/`. Files over the size cap
+ * and anything past the per-run limit are skipped rather than failing the run.
+ * Text files go through `redactText` so secrets never reach the store.
+ */
+export async function collectSandboxArtifacts(
+  sandbox: SandboxInstance,
+  cwd: string,
+  redactText: (text: string) => string = (text) => text,
+) {
+  const listing = await sandbox.runCommand({
+    cmd: "find",
+    args: [ARTIFACT_DIR, "-maxdepth", "1", "-type", "f", "-printf", "%s %f\\n"],
+    cwd,
+  });
+  if (listing.exitCode !== 0) {
+    return [];
+  }
+
+  const entries = (await listing.stdout())
+    .split("\n")
+    .map((line) => line.match(/^(\d+) (.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => ({ size: Number(match[1]), name: match[2] }))
+    .filter((entry) => entry.size <= MAX_ARTIFACT_BYTES)
+    .slice(0, MAX_ARTIFACTS_PER_RUN);
+
+  const artifacts: StoredArtifact[] = [];
+  for (const entry of entries) {
+    const stream = await sandbox.readFile({
+      path: `${ARTIFACT_DIR}/${entry.name}`,
+      cwd,
+    });
+    if (!stream) {
+      continue;
+    }
+
+    const contentType = contentTypeFor(entry.name);
+    const raw = await readStream(stream);
+    const data = isTextType(contentType)
+      ? Buffer.from(redactText(raw.toString("utf8")))
+      : raw;
+    artifacts.push({
+      name: entry.name,
+      size: data.length,
+      contentType,
+      data,
+    });
+  }
+
+  return artifacts;
+}
+
+export function saveArtifacts(traceId: string, artifacts: StoredArtifact[]) {
+  if (artifacts.length === 0) {
+    return;
+  }
+
+  artifactStore.artifacts.set(traceId, artifacts);
+  artifactStore.order.push(traceId);
+
+  const storedBytes = () =>
+    [...artifactStore.artifacts.values()]
+      .flat()
+      .reduce((total, artifact) => total + artifact.size, 0);
+
+  while (
+    artifactStore.order.length > MAX_ARTIFACT_TRACES ||
+    (artifactStore.order.length > 1 && storedBytes() > MAX_ARTIFACT_STORE_BYTES)
+  ) {
+    const oldest = artifactStore.order.shift();
+    if (oldest) {
+      artifactStore.artifacts.delete(oldest);
+    }
+  }
+}
+
+export function getArtifact(traceId: string, name: string) {
+  return (
+    artifactStore.artifacts
+      .get(traceId)
+      ?.find((artifact) => artifact.name === name) ?? null
+  );
+}
+
+export function toArtifactInfo({ name, size, contentType }: ArtifactInfo) {
+  return { name, size, contentType };
+}
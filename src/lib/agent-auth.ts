@@ -0,0 +1,147 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const apiKeysSchema = z.array(
+  z.object({
+    name: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/),
+    key: z.string().min(16),
+    rateLimitPerMinute: z.number().int().min(0).optional(),
+    maxConcurrentRuns: z.number().int().min(0).optional(),
+  }),
+);
+
+type ApiKeyEntry = z.infer<typeof apiKeysSchema>[number];
+
+export type Caller = {
+  /** Owner id stored on traces and sessions; the key's name. */
+  id: string;
+  rateLimitPerMinute?: number;
+  maxConcurrentRuns?: number;
+};
+
+/** Every request shares this identity while `AGENT_API_KEYS` is unset. */
+export const ANONYMOUS_CALLER: Caller = { id: "anonymous" };
+
+export const AUTH_COOKIE = "agent_auth";
+export const AUTH_COOKIE_TTL_MS = 12 * 60 * 60_000;
+
+export function isAuthEnabled() {
+  return Boolean(process.env.AGENT_API_KEYS?.trim());
+}
+
+/**
+ * Keys from `AGENT_API_KEYS`, a JSON array of
+ * `{ name, key, rateLimitPerMinute?, maxConcurrentRuns? }`. A malformed value
+ * yields no keys, so every request is rejected rather than let through.
+ */
+function readApiKeys(): ApiKeyEntry[] {
+  try {
+    const parsed = apiKeysSchema.safeParse(
+      JSON.parse(process.env.AGENT_API_KEYS ?? "[]"),
+    );
+    if (parsed.success) {
+      return parsed.data;
+    }
+    console.error("Invalid AGENT_API_KEYS:", parsed.error.message);
+  } catch (error) {
+    console.error("Invalid AGENT_API_KEYS:", error);
+  }
+  return [];
+}
+
+function toCaller(entry: ApiKeyEntry): Caller {
+  return {
+    id: entry.name,
+    rateLimitPerMinute: entry.rateLimitPerMinute,
+    maxConcurrentRuns: entry.maxConcurrentRuns,
+  };
+}
+
+// Hashing first gives both sides the same length, which timingSafeEqual needs.
+function safeEqual(a: string, b: string) {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+function cookieSecret() {
+  return (
+    process.env.AGENT_AUTH_SECRET ||
+    createHash("sha256")
+      .update(process.env.AGENT_API_KEYS ?? "")
+      .digest("hex")
+  );
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", cookieSecret())
+    .update(payload)
+    .digest("base64url");
+}
+
+export function findApiKey(key: string) {
+  const entry = readApiKeys().find((candidate) =>
+    safeEqual(candidate.key, key),
+  );
+  return entry ? toCaller(entry) : null;
+}
+
+/** Cookie value `<name>.<expiresAt>.<hmac>` for a caller that signed in. */
+export function createAuthToken(caller: Caller) {
+  const payload = `${caller.id}.${Date.now() + AUTH_COOKIE_TTL_MS}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+function verifyAuthToken(token: string) {
+  const [name, expiresAt, signature] = token.split(".");
+  if (!name || !expiresAt || !signature) {
+    return null;
+  }
+
+  if (
+    !safeEqual(signature, sign(`${name}.${expiresAt}`)) ||
+    Number(expiresAt) < Date.now()
+  ) {
+    return null;
+  }
+
+  // Re-read the key so removing it from the env also ends its cookie sessions.
+  const entry = readApiKeys().find((candidate) => candidate.name === name);
+  return entry ? toCaller(entry) : null;
+}
+
+function readCookie(req: Request, name: string) {
+  for (const part of (req.headers.get("cookie") ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+  return null;
+}
+
+/**
+ * Identifies the caller from `Authorization: Bearer <key>`, `X-API-Key` or the
+ * sign-in cookie. Returns null when auth is on and none of them is valid.
+ */
+export function authenticate(req: Request): Caller | null {
+  if (!isAuthEnabled()) {
+    return ANONYMOUS_CALLER;
+  }
+
+  const bearer = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i);
+  const key = bearer?.[1] ?? req.headers.get("x-api-key");
+  if (key) {
+    return findApiKey(key.trim());
+  }
+
+  const token = readCookie(req, AUTH_COOKIE);
+  return token ? verifyAuthToken(token) : null;
+}
+
+export function unauthorizedResponse() {
+  return NextResponse.json(
+    { error: "Missing or invalid API key." },
+    { status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+  );
+}
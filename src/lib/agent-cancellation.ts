@@ -0,0 +1,34 @@
+type CancelRun = (reason: string) => void;
+
+const globalForCancellation = globalThis as typeof globalThis & {
+  __agentActiveRuns?: Map<string, CancelRun>;
+};
+
+const activeRuns =
+  globalForCancellation.__agentActiveRuns ?? new Map<string, CancelRun>();
+
+globalForCancellation.__agentActiveRuns = activeRuns;
+
+/** Makes a run cancellable by trace id until it is unregistered. */
+export function registerRun(traceId: string, cancel: CancelRun) {
+  activeRuns.set(traceId, cancel);
+}
+
+export function unregisterRun(traceId: string) {
+  activeRuns.delete(traceId);
+}
+
+export function isRunActive(traceId: string) {
+  return activeRuns.has(traceId);
+}
+
+/** Returns false when no run with that trace id is in progress. */
+export function cancelRun(traceId: string, reason: string) {
+  const cancel = activeRuns.get(traceId);
+  if (!cancel) {
+    return false;
+  }
+
+  cancel(reason);
+  return true;
+}
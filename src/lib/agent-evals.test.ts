@@ -0,0 +1,115 @@
+import { existsSync } from "fs";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { runEvalSuite } from "@/lib/agent-evals";
+import { findTraces } from "@/lib/agent-traces";
+import type { EvalCase } from "@/lib/eval-suite";
+
+const runCode = (code: string) => ({
+  toolName: "runInSandbox" as const,
+  input: { code, language: "javascript" },
+});
+
+describe("runEvalSuite offline", () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(path.join(tmpdir(), "agent-evals-test-"));
+    process.env.AGENT_EVAL_REPORT_DIR = path.join(workDir, "reports");
+  });
+
+  afterEach(async () => {
+    delete process.env.AGENT_EVAL_REPORT_DIR;
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  const runCases = (cases: EvalCase[]) =>
+    runEvalSuite(
+      { name: "test", cases },
+      { mode: "offline", ownerId: "eval-test" },
+    );
+
+  it("runs sandbox calls in a local sandbox", async () => {
+    const marker = path.join(workDir, "ran");
+    const report = await runCases([
+      {
+        id: "square",
+        prompt: "What is 44 x 44?",
+        checks: [{ type: "numeric", value: 1936 }],
+        mock: {
+          steps: [
+            {
+              toolCalls: [
+                runCode(
+                  `require("fs").writeFileSync(${JSON.stringify(marker)}, ""); console.log(44 * 44);`,
+                ),
+              ],
+            },
+            { text: "44 x 44 = 1936." },
+          ],
+        },
+      },
+    ]);
+
+    expect(existsSync(marker)).toBe(true);
+    expect(report.cases[0]).toMatchObject({
+      passed: true,
+      answer: "44 x 44 = 1936.",
+      traceId: null,
+      toolCalls: { runInSandbox: 1 },
+    });
+  });
+
+  it("fails a case whose sandbox call exits non-zero", async () => {
+    const report = await runCases([
+      {
+        id: "broken",
+        prompt: "p",
+        checks: [{ type: "regex", pattern: "done" }],
+        mock: {
+          steps: [
+            { toolCalls: [runCode("process.exit(3)")] },
+            { text: "done" },
+          ],
+        },
+      },
+    ]);
+
+    expect(report.cases[0]).toMatchObject({
+      passed: false,
+      error: "runInSandbox exited with code 3.",
+    });
+  });
+
+  it("answers fetchJson from the script and keeps traces out of the shared store", async () => {
+    const report = await runCases([
+      {
+        id: "fetch",
+        prompt: "p",
+        checks: [{ type: "exact", value: "ok" }],
+        mock: {
+          steps: [
+            {
+              toolCalls: [
+                {
+                  toolName: "fetchJson",
+                  input: { url: "http://127.0.0.1:9/unreachable.json" },
+                  output: { ok: true },
+                },
+              ],
+            },
+            { text: "ok" },
+          ],
+        },
+      },
+    ]);
+
+    expect(report.cases[0]).toMatchObject({
+      passed: true,
+      toolCalls: { fetchJson: 1 },
+    });
+    expect(findTraces({ ownerId: "eval-test" })).toHaveLength(0);
+  });
+});
@@ -0,0 +1,399 @@
+import { randomUUID } from "crypto";
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { AgentUsage } from "@/lib/agent-events";
+import { createAgentRunner } from "@/lib/agent-runner";
+import {
+  createTraceRecorder,
+  getTrace,
+  type AgentTrace,
+  type TraceEvent,
+} from "@/lib/agent-traces";
+import { checkAnswer, type EvalCheckResult } from "@/lib/eval-checks";
+import type { EvalCase, EvalSuite } from "@/lib/eval-suite";
+import { createLocalSandbox } from "@/lib/local-sandbox";
+import type { SandboxFactory } from "@/lib/sandbox-manager";
+import { createReplayModel, createReplayTools } from "@/lib/trace-replay";
+import { createMemoryTraceStore } from "@/lib/trace-store";
+
+export type EvalMode = "live" | "offline";
+
+/** Runs one case through the live agent and returns its trace id. */
+export type LiveCaseRunner = (
+  evalCase: EvalCase,
+) => Promise<{ traceId: string } | { error: string }>;
+
+export type EvalCaseResult = {
+  id: string;
+  prompt: string;
+  passed: boolean;
+  checks: EvalCheckResult[];
+  answer: string;
+  /** Live runs only; offline traces are discarded after each case. */
+  traceId: string | null;
+  error?: string;
+  toolCalls: Record<string, number>;
+  usage: AgentUsage | null;
+  latencyMs: number;
+};
+
+export type EvalReport = {
+  id: string;
+  suite: string;
+  mode: EvalMode;
+  ownerId: string;
+  startedAt: number;
+  finishedAt: number;
+  total: number;
+  passed: number;
+  passRate: number;
+  toolCalls: Record<string, number>;
+  usage: Required<AgentUsage>;
+  latencyMs: { average: number; max: number };
+  cases: EvalCaseResult[];
+};
+
+export type EvalReportSummary = Omit<EvalReport, "cases">;
+
+function reportDir() {
+  return path.resolve(
+    process.env.AGENT_EVAL_REPORT_DIR?.trim() ||
+      path.join(process.cwd(), ".data", "eval-reports"),
+  );
+}
+
+// Builds the trace an offline run's model replays: the case's scripted steps,
+// with each fetchJson call's output recorded as if the network had returned it.
+function scriptedTrace(evalCase: EvalCase): AgentTrace {
+  const events: TraceEvent[] = [];
+  const steps: NonNullable<AgentTrace["steps"]> = [];
+  let clock = 0;
+
+  (evalCase.mock?.steps ?? [{ text: "" }]).forEach((step, stepIndex) => {
+    (step.toolCalls ?? []).forEach((call, callIndex) => {
+      const toolCallId = `${evalCase.id}-${stepIndex}-${callIndex}`;
+      events.push({
+        type: "tool-call",
+        toolCallId,
+        toolName: call.toolName,
+        input: call.input,
+        timestamp: (clock += 1),
+      });
+      if (call.toolName !== "fetchJson") {
+        return;
+      }
+      events.push(
+        call.error !== undefined
+          ? {
+              type: "tool-error",
+              toolCallId,
+              toolName: call.toolName,
+              error: call.error,
+              timestamp: (clock += 1),
+            }
+          : {
+              type: "tool-result",
+              toolCallId,
+              toolName: call.toolName,
+              output: call.output ?? null,
+              timestamp: (clock += 1),
+            },
+      );
+    });
+
+    steps.push({
+      finishReason: step.toolCalls?.length ? "tool-calls" : "stop",
+      finishedAt: (clock += 1),
+      text: step.text ?? "",
+    });
+  });
+
+  return {
+    id: `eval-${evalCase.id}`,
+    prompt: evalCase.prompt,
+    model: evalCase.model ?? "mock",
+    sandboxId: null,
+    startedAt: 0,
+    finishedAt: clock,
+    events,
+    steps,
+  };
+}
+
+const localSandboxes: SandboxFactory = {
+  acquire: () => createLocalSandbox(),
+  release: (sandbox) => sandbox.stop(),
+};
+
+/**
+ * Runs a case's script through the agent runner: the model and fetchJson
+ * answer from the script, while runInSandbox and runProject execute for real.
+ * The trace goes to a throwaway store so evals never crowd out real runs.
+ */
+async function runOffline(
+  evalCase: EvalCase,
+  ownerId: string,
+  sandboxes: SandboxFactory,
+) {
+  const script = scriptedTrace(evalCase);
+  const store = createMemoryTraceStore({ maxCount: 1 });
+  const runner = createAgentRunner({
+    createModel: () => createReplayModel(script),
+    createTools: (helpers) => ({
+      fetchJson: createReplayTools(script, helpers).fetchJson,
+    }),
+    sandboxes,
+    traces: createTraceRecorder(store),
+  });
+
+  const traceId = randomUUID();
+  try {
+    let settle = () => {};
+    const settled = new Promise<void>((resolve) => (settle = resolve));
+    const run = await runner.run({
+      traceId,
+      ownerId,
+      prompt: evalCase.prompt,
+      modelChain: [script.model],
+      onSettled: () => settle(),
+    });
+    const reader = run.events.getReader();
+    while (!(await reader.read()).done) {
+      // Everything the checks need is in the trace.
+    }
+    // Sandboxes are released by then, so cases never overlap.
+    await settled;
+  } catch (error) {
+    // A model that cannot start is already recorded as a failed trace.
+    console.error("Offline eval case failed to start:", error);
+  }
+
+  return store.get(traceId);
+}
+
+/** The last text the model wrote; earlier steps usually narrate tool use. */
+function answerOf(trace: AgentTrace) {
+  if (trace.answer !== undefined) {
+    return trace.answer;
+  }
+  const texts = (trace.steps ?? [])
+    .map((step) => step.text?.trim() ?? "")
+    .filter(Boolean);
+  return texts.at(-1) ?? "";
+}
+
+// An offline script cannot react to a sandbox call going wrong, so one that
+// errors or exits non-zero fails the case.
+function sandboxFailure(trace: AgentTrace) {
+  for (const event of trace.events) {
+    if (
+      event.type === "tool-error" &&
+      event.toolCallId &&
+      event.toolName !== "fetchJson"
+    ) {
+      return `${event.toolName} failed: ${event.error}`;
+    }
+    if (event.type === "tool-result" && event.toolName !== "fetchJson") {
+      const exitCode = (event.output as { exitCode?: number } | null)?.exitCode;
+      if (exitCode) {
+        return `${event.toolName} exited with code ${exitCode}.`;
+      }
+    }
+  }
+  return null;
+}
+
+function countToolCalls(trace: AgentTrace) {
+  const counts: Record<string, number> = {};
+  for (const event of trace.events) {
+    if (event.type === "tool-call") {
+      counts[event.toolName] = (counts[event.toolName] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+async function runCase(
+  evalCase: EvalCase,
+  mode: EvalMode,
+  ownerId: string,
+  runLive: LiveCaseRunner | undefined,
+  sandboxes: SandboxFactory,
+): Promise<EvalCaseResult> {
+  const startedAt = Date.now();
+  const failed = (error: string, traceId: string | null = null) => ({
+    id: evalCase.id,
+    prompt: evalCase.prompt,
+    passed: false,
+    checks: [],
+    answer: "",
+    traceId,
+    error,
+    toolCalls: {},
+    usage: null,
+    latencyMs: Date.now() - startedAt,
+  });
+
+  let trace: AgentTrace | null;
+  if (mode === "offline") {
+    if (!evalCase.mock) {
+      return failed("Case has no mock script, so it cannot run offline.");
+    }
+    trace = await runOffline(evalCase, ownerId, sandboxes);
+  } else {
+    if (!runLive) {
+      return failed("Live runs are not available here.");
+    }
+    const run = await runLive(evalCase);
+    if ("error" in run) {
+      return failed(run.error);
+    }
+    trace = getTrace(run.traceId);
+  }
+
+  if (!trace) {
+    return failed("The run's trace was not recorded.");
+  }
+
+  const answer = answerOf(trace);
+  const checks = checkAnswer(evalCase.checks, answer);
+  const runError = trace.events.find(
+    (event) => event.type === "tool-error" && !event.toolCallId,
+  );
+  const error =
+    (runError?.type === "tool-error" ? runError.error : null) ??
+    (mode === "offline" ? sandboxFailure(trace) : null);
+
+  return {
+    id: evalCase.id,
+    prompt: evalCase.prompt,
+    passed: !error && checks.every((check) => check.passed),
+    checks,
+    answer,
+    traceId: mode === "live" ? trace.id : null,
+    ...(error ? { error } : {}),
+    toolCalls: countToolCalls(trace),
+    usage: trace.usage ?? null,
+    latencyMs: (trace.finishedAt ?? Date.now()) - trace.startedAt,
+  };
+}
+
+/**
+ * Runs every case in order and writes the report to `AGENT_EVAL_REPORT_DIR`
+ * (default `.data/eval-reports`). Offline runs play each case's mock script
+ * through the agent runner, running sandbox calls in `sandboxes` (by default
+ * local child processes); live runs go through `runLive`.
+ */
+export async function runEvalSuite(
+  suite: EvalSuite,
+  options: {
+    mode: EvalMode;
+    ownerId: string;
+    runLive?: LiveCaseRunner;
+    sandboxes?: SandboxFactory;
+  },
+): Promise<EvalReport> {
+  const startedAt = Date.now();
+  const cases: EvalCaseResult[] = [];
+  for (const evalCase of suite.cases) {
+    cases.push(
+      await runCase(
+        evalCase,
+        options.mode,
+        options.ownerId,
+        options.runLive,
+        options.sandboxes ?? localSandboxes,
+      ),
+    );
+  }
+
+  const toolCalls: Record<string, number> = {};
+  const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+  for (const result of cases) {
+    for (const [toolName, count] of Object.entries(result.toolCalls)) {
+      toolCalls[toolName] = (toolCalls[toolName] ?? 0) + count;
+    }
+    usage.inputTokens += result.usage?.inputTokens ?? 0;
+    usage.outputTokens += result.usage?.outputTokens ?? 0;
+    usage.totalTokens += result.usage?.totalTokens ?? 0;
+  }
+
+  const passed = cases.filter((result) => result.passed).length;
+  const latencies = cases.map((result) => result.latencyMs);
+  const report: EvalReport = {
+    id: randomUUID(),
+    suite: suite.name,
+    mode: options.mode,
+    ownerId: options.ownerId,
+    startedAt,
+    finishedAt: Date.now(),
+    total: cases.length,
+    passed,
+    passRate: cases.length > 0 ? passed / cases.length : 0,
+    toolCalls,
+    usage,
+    latencyMs: {
+      average: Math.round(
+        latencies.reduce((total, value) => total + value, 0) /
+          Math.max(1, latencies.length),
+      ),
+      max: Math.max(0, ...latencies),
+    },
+    cases,
+  };
+
+  try {
+    await mkdir(reportDir(), { recursive: true });
+    await writeFile(
+      path.join(reportDir(), `${report.id}.json`),
+      JSON.stringify(report, null, 2),
+    );
+  } catch (error) {
+    console.error("Failed to write eval report:", error);
+  }
+
+  return report;
+}
+
+export async function getEvalReport(reportId: string) {
+  if (!/^[0-9a-f-]{36}$/.test(reportId)) {
+    return null;
+  }
+
+  try {
+    const raw = await readFile(
+      path.join(reportDir(), `${reportId}.json`),
+      "utf8",
+    );
+    return JSON.parse(raw) as EvalReport;
+  } catch {
+    return null;
+  }
+}
+
+/** Newest first, without per-case results. */
+export async function listEvalReports(
+  ownerId: string,
+): Promise<EvalReportSummary[]> {
+  let files: string[];
+  try {
+    files = (await readdir(reportDir())).filter((file) =>
+      file.endsWith(".json"),
+    );
+  } catch {
+    return [];
+  }
+
+  const reports = await Promise.all(
+    files.map((file) => getEvalReport(file.replace(/\.json$/, ""))),
+  );
+
+  return reports
+    .filter((report): report is EvalReport => report?.ownerId === ownerId)
+    .sort((left, right) => right.startedAt - left.startedAt)
+    .map((report) => {
+      const summary: Partial<EvalReport> = { ...report };
+      delete summary.cases;
+      return summary as EvalReportSummary;
+    });
+}
@@ -0,0 +1,114 @@
+import type { TraceRunStatus } from "@/lib/agent-traces";
+
+export type StreamFormat = "text" | "sse" | "ndjson";
+
+export type AgentUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+};
+
+export type AgentStreamEvent =
+  | { type: "text-delta"; text: string }
+  | { type: "tool-call"; toolCallId: string; toolName: string; input: unknown }
+  | {
+      type: "tool-result";
+      toolCallId: string;
+      toolName: string;
+      output: unknown;
+    }
+  | {
+      type: "tool-error";
+      toolCallId?: string;
+      toolName?: string;
+      error: string;
+    }
+  | {
+      type: "tool-output-denied";
+      toolCallId: string;
+      toolName: string;
+      reason: string;
+    }
+  | {
+      type: "approval-requested";
+      toolCallId: string;
+      toolName: string;
+      input: unknown;
+    }
+  | { type: "step-finish"; finishReason: string; usage: AgentUsage }
+  | { type: "run-cancelled"; reason: string }
+  | {
+      type: "done";
+      traceId: string;
+      status: TraceRunStatus;
+      finishReason?: string;
+      usage?: AgentUsage;
+      artifacts?: string[];
+    };
+
+const FORMAT_CONTENT_TYPES: Record<StreamFormat, string> = {
+  text: "text/plain; charset=utf-8",
+  sse: "text/event-stream; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+/**
+ * Picks the wire format from `?stream=sse|ndjson|text`, falling back to the
+ * Accept header. Plain text stays the default so existing clients keep working.
+ */
+export function resolveStreamFormat(req: Request): StreamFormat {
+  const query = new URL(req.url).searchParams.get("stream");
+  if (query === "sse" || query === "ndjson" || query === "text") {
+    return query;
+  }
+
+  const accept = req.headers.get("accept") ?? "";
+  if (accept.includes("text/event-stream")) {
+    return "sse";
+  }
+
+  if (
+    accept.includes("application/x-ndjson") ||
+    accept.includes("application/jsonl")
+  ) {
+    return "ndjson";
+  }
+
+  return "text";
+}
+
+export function streamContentType(format: StreamFormat) {
+  return FORMAT_CONTENT_TYPES[format];
+}
+
+/**
+ * Serializes one event for the chosen format. Text mode only carries the
+ * model's text, so every other event encodes to an empty string.
+ */
+export function encodeStreamEvent(
+  format: StreamFormat,
+  event: AgentStreamEvent,
+) {
+  if (format === "text") {
+    return event.type === "text-delta" ? event.text : "";
+  }
+
+  const payload = JSON.stringify(event);
+  if (format === "sse") {
+    return `event: ${event.type}\ndata: ${payload}\n\n`;
+  }
+
+  return `${payload}\n`;
+}
+
+export function toAgentUsage(usage: {
+  inputTokens: number | undefined;
+  outputTokens: number | undefined;
+  totalTokens: number | undefined;
+}): AgentUsage {
+  return {
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    totalTokens: usage.totalTokens,
+  };
+}
@@ -0,0 +1,55 @@
+// Parts the AI SDK emits before the model has produced anything.
+const PREAMBLE_PART_TYPES = new Set(["start", "start-step", "raw"]);
+
+export type OpenedStream<PART> =
+  { ok: true; parts: AsyncIterable<PART> } | { ok: false; error: unknown };
+
+/**
+ * Reads a model stream up to its first real part. If the provider fails
+ * before any output (auth, rate limit, unknown model), the error is returned
+ * so the caller can try the next model; otherwise the parts read so far are
+ * replayed in front of the rest of the stream.
+ */
+export async function openStream<PART extends { type: string }>(
+  stream: AsyncIterable<PART>,
+): Promise<OpenedStream<PART>> {
+  const iterator = stream[Symbol.asyncIterator]();
+  const buffered: PART[] = [];
+
+  while (true) {
+    let next: IteratorResult<PART>;
+    try {
+      next = await iterator.next();
+    } catch (error) {
+      return { ok: false, error };
+    }
+
+    if (next.done) {
+      break;
+    }
+
+    const part = next.value;
+    if (part.type === "error") {
+      return { ok: false, error: (part as { error?: unknown }).error };
+    }
+
+    buffered.push(part);
+    if (!PREAMBLE_PART_TYPES.has(part.type)) {
+      break;
+    }
+  }
+
+  return {
+    ok: true,
+    parts: (async function* () {
+      yield* buffered;
+      while (true) {
+        const next = await iterator.next();
+        if (next.done) {
+          return;
+        }
+        yield next.value;
+      }
+    })(),
+  };
+}
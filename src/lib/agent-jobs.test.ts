@@ -0,0 +1,123 @@
+import { tool, zodSchema } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { cancelRun } from "@/lib/agent-cancellation";
+import { createJob, runJob } from "@/lib/agent-jobs";
+import { createAgentRunner } from "@/lib/agent-runner";
+import { createTraceRecorder } from "@/lib/agent-traces";
+import type { SandboxFactory } from "@/lib/sandbox-manager";
+import { createMemoryTraceStore } from "@/lib/trace-store";
+
+type StreamPart =
+  Awaited<
+    ReturnType<MockLanguageModelV3["doStream"]>
+  >["stream"] extends ReadableStream<infer Part>
+    ? Part
+    : never;
+
+const USAGE = {
+  inputTokens: {
+    total: 1,
+    noCache: 1,
+    cacheRead: undefined,
+    cacheWrite: undefined,
+  },
+  outputTokens: { total: 1, text: 1, reasoning: undefined },
+};
+
+// Calls fetchJson on every step, so the run only ends at the step limit.
+const loopingModel = (modelId: string) => {
+  let call = 0;
+  return new MockLanguageModelV3({
+    modelId,
+    doStream: async () => {
+      call += 1;
+      const parts: StreamPart[] = [
+        { type: "stream-start", warnings: [] },
+        {
+          type: "tool-call",
+          toolCallId: `call-${call}`,
+          toolName: "fetchJson",
+          input: JSON.stringify({ url: "https://example.com/data.json" }),
+        },
+        {
+          type: "finish",
+          finishReason: { unified: "tool-calls", raw: "tool-calls" },
+          usage: USAGE,
+        },
+      ];
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            parts.forEach((part) => controller.enqueue(part));
+            controller.close();
+          },
+        }),
+      };
+    },
+  });
+};
+
+const noSandboxes: SandboxFactory = {
+  acquire: async () => {
+    throw new Error("No sandbox in this test.");
+  },
+  release: async () => {},
+};
+
+function startJob(fetchJson: () => Promise<unknown>) {
+  const runner = createAgentRunner({
+    createModel: loopingModel,
+    createTools: () => ({
+      fetchJson: tool({
+        inputSchema: zodSchema(z.object({ url: z.string() })),
+        execute: fetchJson,
+      }),
+    }),
+    sandboxes: noSandboxes,
+    traces: createTraceRecorder(createMemoryTraceStore({ maxCount: 10 })),
+    loadToolPolicy: async () => ({}),
+  });
+  const job = createJob({
+    ownerId: "test",
+    traceId: crypto.randomUUID(),
+    prompt: "p",
+    model: "requested",
+  });
+  const running = runJob(job, () =>
+    runner.run({
+      traceId: job.traceId,
+      ownerId: job.ownerId,
+      prompt: job.prompt,
+      modelChain: ["answering"],
+    }),
+  );
+  return { job, running };
+}
+
+describe("runJob", () => {
+  it("takes the status from the run and the model that answered", async () => {
+    const { job, running } = startJob(async () => ({ ok: true }));
+    await running;
+
+    expect(job).toMatchObject({
+      status: "step-limit-reached",
+      model: "answering",
+    });
+  });
+
+  it("records a run cancelled by trace id as cancelled", async () => {
+    let cancelled = false;
+    const { job, running } = startJob(async () => {
+      if (!cancelled) {
+        cancelled = true;
+        cancelRun(job.traceId, "Stopped by the test.");
+      }
+      return { ok: true };
+    });
+    await running;
+
+    expect(job.status).toBe("cancelled");
+  });
+});
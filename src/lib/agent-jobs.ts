@@ -0,0 +1,273 @@
+import { createHmac, randomUUID } from "crypto";
+import { cancelRun } from "@/lib/agent-cancellation";
+import type { AgentRun } from "@/lib/agent-runner";
+import type { TraceRunStatus } from "@/lib/agent-traces";
+import { postJson } from "@/lib/safe-fetch";
+import type {
+  SandboxFactory,
+  SandboxInstance,
+  SandboxManager,
+} from "@/lib/sandbox-manager";
+import { readPositiveInt } from "@/lib/env";
+
+export type AgentJobStatus = "running" | TraceRunStatus;
+
+export type AgentJobWebhook = {
+  url: string;
+  deliveredAt?: number;
+  /** HTTP status the endpoint answered with. */
+  status?: number;
+  error?: string;
+};
+
+export type AgentJob = {
+  id: string;
+  ownerId: string;
+  /** The `AgentTrace` the run records into. */
+  traceId: string;
+  prompt: string;
+  /** The requested model until the run starts, then the one that answered. */
+  model: string | null;
+  status: AgentJobStatus;
+  createdAt: number;
+  finishedAt?: number;
+  /** Text the model has written so far, capped at `MAX_JOB_OUTPUT_CHARS`. */
+  output: string;
+  toolCalls: number;
+  finishReason?: string;
+  error?: string;
+  artifacts?: string[];
+  webhook?: AgentJobWebhook;
+};
+
+type JobStore = {
+  jobs: Map<string, AgentJob>;
+  order: string[];
+};
+
+const MAX_JOBS = 100;
+const MAX_JOB_OUTPUT_CHARS = 20_000;
+
+const globalForJobs = globalThis as typeof globalThis & {
+  __agentJobStore?: JobStore;
+};
+
+const jobStore: JobStore = globalForJobs.__agentJobStore ?? {
+  jobs: new Map<string, AgentJob>(),
+  order: [],
+};
+
+globalForJobs.__agentJobStore = jobStore;
+
+/**
+ * Limits for background runs: `AGENT_JOB_SANDBOX_TIMEOUT_MS` (default 15
+ * minutes) keeps the job's sandboxes alive and `AGENT_JOB_RUN_TIMEOUT_MS`
+ * (default 2 minutes) replaces the per-command run timeout.
+ */
+export function getJobLimits() {
+  return {
+    sandboxTimeoutMs: readPositiveInt(
+      process.env.AGENT_JOB_SANDBOX_TIMEOUT_MS,
+      15 * 60_000,
+    ),
+    runTimeoutMs: readPositiveInt(
+      process.env.AGENT_JOB_RUN_TIMEOUT_MS,
+      120_000,
+    ),
+  };
+}
+
+export function isWebhookSigningEnabled() {
+  return Boolean(process.env.AGENT_JOB_WEBHOOK_SECRET);
+}
+
+// Drops the oldest finished jobs; running jobs are never evicted.
+function pruneJobs() {
+  for (const id of [...jobStore.order]) {
+    if (jobStore.order.length <= MAX_JOBS) {
+      break;
+    }
+    if (jobStore.jobs.get(id)?.status !== "running") {
+      jobStore.jobs.delete(id);
+      jobStore.order = jobStore.order.filter((jobId) => jobId !== id);
+    }
+  }
+}
+
+export function createJob(params: {
+  ownerId: string;
+  traceId: string;
+  prompt: string;
+  model: string | null;
+  webhookUrl?: string;
+}) {
+  const job: AgentJob = {
+    id: randomUUID(),
+    ownerId: params.ownerId,
+    traceId: params.traceId,
+    prompt: params.prompt,
+    model: params.model,
+    status: "running",
+    createdAt: Date.now(),
+    output: "",
+    toolCalls: 0,
+    ...(params.webhookUrl ? { webhook: { url: params.webhookUrl } } : {}),
+  };
+
+  jobStore.jobs.set(job.id, job);
+  jobStore.order.push(job.id);
+  pruneJobs();
+
+  return job;
+}
+
+export function getJob(jobId: string) {
+  return jobStore.jobs.get(jobId) ?? null;
+}
+
+/** Newest first. */
+export function listJobs(ownerId: string) {
+  return [...jobStore.order]
+    .reverse()
+    .map((id) => jobStore.jobs.get(id))
+    .filter((job): job is AgentJob => job?.ownerId === ownerId);
+}
+
+/**
+ * `sha256=` HMAC of `${timestamp}.${body}` with `AGENT_JOB_WEBHOOK_SECRET`,
+ * sent as `X-Agent-Signature` next to `X-Agent-Timestamp`.
+ */
+export function signWebhook(timestamp: number, body: string) {
+  const secret = process.env.AGENT_JOB_WEBHOOK_SECRET ?? "";
+  return `sha256=${createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex")}`;
+}
+
+async function deliverWebhook(job: AgentJob) {
+  if (!job.webhook) {
+    return;
+  }
+
+  const timestamp = Date.now();
+  const body = JSON.stringify({
+    jobId: job.id,
+    traceId: job.traceId,
+    status: job.status,
+    finishReason: job.finishReason,
+    output: job.output,
+    error: job.error,
+    artifacts: job.artifacts ?? [],
+    finishedAt: job.finishedAt,
+  });
+
+  try {
+    const response = await postJson(job.webhook.url, body, {
+      "x-agent-job-id": job.id,
+      "x-agent-timestamp": String(timestamp),
+      "x-agent-signature": signWebhook(timestamp, body),
+    });
+    job.webhook.status = response.status;
+    if (response.status < 200 || response.status >= 300) {
+      job.webhook.error = `Webhook answered with status ${response.status}.`;
+    }
+  } catch (error) {
+    job.webhook.error = error instanceof Error ? error.message : String(error);
+  }
+  job.webhook.deliveredAt = Date.now();
+}
+
+function finishJob(job: AgentJob, status: AgentJobStatus, error?: string) {
+  if (job.status !== "running") {
+    return false;
+  }
+  job.status = status;
+  job.finishedAt = Date.now();
+  if (error) {
+    job.error = error;
+  }
+  return true;
+}
+
+/**
+ * Drives a job in the background: waits for `start` to begin streaming, then
+ * reads the run's events into the job until it ends and calls the webhook.
+ * The returned promise never rejects.
+ */
+export async function runJob(job: AgentJob, start: () => Promise<AgentRun>) {
+  try {
+    const run = await start();
+    job.model = run.modelId;
+    const reader = run.events.getReader();
+    let status: TraceRunStatus = "failed";
+    let runError: string | undefined;
+    for (;;) {
+      const { done, value: event } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      if (event.type === "text-delta") {
+        job.output = (job.output + event.text).slice(0, MAX_JOB_OUTPUT_CHARS);
+      } else if (event.type === "tool-call") {
+        job.toolCalls += 1;
+      } else if (event.type === "tool-error" && !event.toolCallId) {
+        runError = event.error;
+      } else if (event.type === "done") {
+        status = event.status;
+        job.finishReason = event.finishReason;
+        job.artifacts = event.artifacts;
+      }
+    }
+
+    finishJob(job, status, runError);
+  } catch (error) {
+    console.error(`Job ${job.id} failed:`, error);
+    finishJob(
+      job,
+      "failed",
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+
+  await deliverWebhook(job);
+}
+
+/**
+ * Stops a running job: the run is aborted and its sandboxes are stopped. The
+ * webhook still fires with status `cancelled`. False if it already finished.
+ */
+export function cancelJob(jobId: string) {
+  const job = jobStore.jobs.get(jobId);
+  if (!job || !finishJob(job, "cancelled")) {
+    return false;
+  }
+
+  cancelRun(job.traceId, "The job was cancelled.");
+  return true;
+}
+
+/**
+ * Sandboxes from a manager, kept alive for `timeoutMs` so long commands are
+ * not cut off by the default sandbox lifetime. Stopped when the job ends.
+ */
+export function jobSandboxFactory(
+  manager: SandboxManager,
+  timeoutMs: number,
+): SandboxFactory {
+  return {
+    async acquire(runtime) {
+      const lease = await manager.acquire(runtime);
+      const remaining = lease.expiresAt - Date.now();
+      if (remaining < timeoutMs) {
+        try {
+          await lease.sandbox.extendTimeout(timeoutMs - remaining);
+        } catch (error) {
+          console.error("Failed to extend job sandbox:", error);
+        }
+      }
+      return lease.sandbox;
+    },
+    release: (sandbox: SandboxInstance) => manager.release(sandbox),
+  };
+}
@@ -0,0 +1,39 @@
+const DEFAULT_MODEL = "openai/gpt-5-nano";
+
+function readList(value: string | undefined) {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Models a request may ask for. `AGENT_MODELS` is a comma-separated list;
+ * the default model is always allowed.
+ */
+export function getAllowedModels() {
+  const configured = readList(process.env.AGENT_MODELS);
+  return [...new Set([getDefaultModel(), ...configured])];
+}
+
+export function getDefaultModel() {
+  return process.env.AGENT_DEFAULT_MODEL?.trim() || DEFAULT_MODEL;
+}
+
+export function isAllowedModel(model: string) {
+  return getAllowedModels().includes(model);
+}
+
+/**
+ * Ordered list of models to try: the requested (or default) model first, then
+ * `AGENT_MODEL_FALLBACKS`. Fallbacks outside the allow-list are skipped.
+ */
+export function resolveModelChain(requested?: string) {
+  const primary = requested ?? getDefaultModel();
+  const allowed = getAllowedModels();
+  const fallbacks = readList(process.env.AGENT_MODEL_FALLBACKS).filter(
+    (model) => allowed.includes(model),
+  );
+
+  return [...new Set([primary, ...fallbacks])];
+}
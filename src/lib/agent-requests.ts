@@ -0,0 +1,45 @@
+/** The `/api/agent` POST handler, passed in so lib code never imports a route. */
+export type AgentHandler = (req: Request) => Promise<Response>;
+
+/**
+ * Runs a prompt through the agent route on behalf of the caller behind
+ * `source`, forwarding its credentials so auth, run limits and trace ownership
+ * apply as usual. The source's signal is passed on, so the run stops when its
+ * client goes away. Resolves once the run has finished and its trace is complete.
+ */
+export async function runAgentRequest(
+  handler: AgentHandler,
+  source: Request,
+  body: {
+    prompt: string;
+    model?: string;
+    secrets?: string[];
+    requireApproval?: boolean;
+  },
+) {
+  const headers = new Headers({ "Content-Type": "application/json" });
+  for (const name of ["authorization", "x-api-key", "cookie"]) {
+    const value = source.headers.get(name);
+    if (value) {
+      headers.set(name, value);
+    }
+  }
+
+  const response = await handler(
+    new Request(new URL("/api/agent", source.url), {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: source.signal,
+    }),
+  );
+
+  const traceId = response.headers.get("X-Trace-Id");
+  if (!response.ok || !traceId) {
+    return { ok: false as const, response };
+  }
+
+  // The trace is finished before the stream closes.
+  await response.text();
+  return { ok: true as const, traceId };
+}
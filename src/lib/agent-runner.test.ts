@@ -0,0 +1,353 @@
+import { existsSync, readFileSync } from "fs";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { MockLanguageModelV3 } from "ai/test";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getArtifact } from "@/lib/agent-artifacts";
+import type { AgentStreamEvent } from "@/lib/agent-events";
+import { cancelRun, isRunActive } from "@/lib/agent-cancellation";
+import { createAgentRunner, type AgentRun } from "@/lib/agent-runner";
+import { createTraceRecorder } from "@/lib/agent-traces";
+import { createLocalSandbox } from "@/lib/local-sandbox";
+import type { SandboxFactory } from "@/lib/sandbox-manager";
+import { createMemoryTraceStore } from "@/lib/trace-store";
+
+type StreamPart =
+  Awaited<
+    ReturnType<MockLanguageModelV3["doStream"]>
+  >["stream"] extends ReadableStream<infer Part>
+    ? Part
+    : never;
+
+type ScriptedStep = {
+  text?: string;
+  toolCalls?: { toolName: string; input: unknown }[];
+  /** Fails the step's stream instead of finishing it. */
+  error?: Error;
+};
+
+const USAGE = {
+  inputTokens: {
+    total: 1,
+    noCache: 1,
+    cacheRead: undefined,
+    cacheWrite: undefined,
+  },
+  outputTokens: { total: 1, text: 1, reasoning: undefined },
+};
+
+// Answers each model call with the next step of the script.
+function scriptedModel(steps: ScriptedStep[]) {
+  let next = 0;
+  return new MockLanguageModelV3({
+    doStream: async () => {
+      const step = steps[next++] ?? { text: "" };
+      const parts: StreamPart[] = [{ type: "stream-start", warnings: [] }];
+      if (step.text) {
+        parts.push(
+          { type: "text-start", id: "text" },
+          { type: "text-delta", id: "text", delta: step.text },
+          { type: "text-end", id: "text" },
+        );
+      }
+      step.toolCalls?.forEach((call, index) => {
+        parts.push({
+          type: "tool-call",
+          toolCallId: `call-${next}-${index}`,
+          toolName: call.toolName,
+          input: JSON.stringify(call.input),
+        });
+      });
+      parts.push(
+        step.error
+          ? { type: "error", error: step.error }
+          : {
+              type: "finish",
+              finishReason: step.toolCalls?.length
+                ? { unified: "tool-calls", raw: "tool-calls" }
+                : { unified: "stop", raw: "stop" },
+              usage: USAGE,
+            },
+      );
+
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            parts.forEach((part) => controller.enqueue(part));
+            controller.close();
+          },
+        }),
+      };
+    },
+  });
+}
+
+const runCode = (code: string) => ({
+  toolName: "runInSandbox",
+  input: { code, language: "javascript" },
+});
+
+function localSandboxes(): SandboxFactory & {
+  release: ReturnType<typeof vi.fn>;
+} {
+  return {
+    acquire: vi.fn(() => createLocalSandbox()),
+    release: vi.fn((sandbox) => sandbox.stop()),
+  };
+}
+
+async function readEvents(run: AgentRun) {
+  const events: AgentStreamEvent[] = [];
+  const reader = run.events.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return events;
+    }
+    events.push(value);
+  }
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 10_000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition.");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+function isAlive(pid: number) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe("createAgentRunner", () => {
+  let store: ReturnType<typeof createMemoryTraceStore>;
+  let workDir: string;
+
+  beforeEach(async () => {
+    store = createMemoryTraceStore({ maxCount: 10 });
+    workDir = await mkdtemp(path.join(tmpdir(), "agent-runner-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  const createRunner = (
+    steps: ScriptedStep[],
+    sandboxes: SandboxFactory = localSandboxes(),
+  ) =>
+    createAgentRunner({
+      createModel: () => scriptedModel(steps),
+      sandboxes,
+      traces: createTraceRecorder(store),
+      loadToolPolicy: async () => ({}),
+    });
+
+  it("runs code in the sandbox and releases it on success", async () => {
+    const sandboxes = localSandboxes();
+    const onSettled = vi.fn();
+    const run = await createRunner(
+      [
+        { toolCalls: [runCode("console.log(6 * 7)")] },
+        { text: "The answer is 42." },
+      ],
+      sandboxes,
+    ).run({ ownerId: "test", prompt: "6 x 7?", modelChain: ["m"], onSettled });
+
+    const events = await readEvents(run);
+    const result = events.find((event) => event.type === "tool-result");
+    expect(result).toMatchObject({
+      output: { phase: "run", exitCode: 0, stdout: "42" },
+    });
+    expect(events.at(-1)).toMatchObject({ type: "done", status: "succeeded" });
+
+    await waitFor(() => onSettled.mock.calls.length > 0);
+    expect(sandboxes.release).toHaveBeenCalledTimes(1);
+    expect(store.get(run.traceId)?.answer).toBe("The answer is 42.");
+  });
+
+  it("redacts secrets from text artifacts", async () => {
+    const onSettled = vi.fn();
+    const run = await createRunner([
+      {
+        toolCalls: [
+          runCode(
+            `const fs = require("fs"); fs.mkdirSync("out"); fs.writeFileSync("out/token.txt", "token=" + process.env.API_TOKEN);`,
+          ),
+        ],
+      },
+      { text: "Done." },
+    ]).run({
+      ownerId: "test",
+      prompt: "p",
+      modelChain: ["m"],
+      secrets: [{ name: "API_TOKEN", value: "tok-1234567890" }],
+      onSettled,
+    });
+
+    const events = await readEvents(run);
+    expect(events.at(-1)).toMatchObject({ artifacts: ["token.txt"] });
+    expect(getArtifact(run.traceId, "token.txt")?.data.toString()).toBe(
+      "token=[REDACTED:API_TOKEN]",
+    );
+  });
+
+  it("turns a throwing tool into a tool-error event", async () => {
+    const sandboxes: SandboxFactory = {
+      acquire: vi.fn(async () => {
+        throw new Error("No sandbox available.");
+      }),
+      release: vi.fn(async () => {}),
+    };
+    const run = await createRunner(
+      [{ toolCalls: [runCode("console.log(1)")] }, { text: "Sorry." }],
+      sandboxes,
+    ).run({ ownerId: "test", prompt: "p", modelChain: ["m"] });
+
+    const events = await readEvents(run);
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "tool-error",
+        toolCallId: "call-1-0",
+        toolName: "runInSandbox",
+        error: expect.stringContaining("No sandbox available."),
+      }),
+    );
+    expect(store.get(run.traceId)?.events).toContainEqual(
+      expect.objectContaining({ type: "tool-error", toolCallId: "call-1-0" }),
+    );
+  });
+
+  it("releases the sandbox when the model fails mid-run", async () => {
+    const sandboxes = localSandboxes();
+    const onSettled = vi.fn();
+    const run = await createRunner(
+      [
+        { toolCalls: [runCode("console.log(1)")] },
+        { error: new Error("Provider went away.") },
+      ],
+      sandboxes,
+    ).run({ ownerId: "test", prompt: "p", modelChain: ["m"], onSettled });
+
+    const events = await readEvents(run);
+    expect(events.at(-1)).toMatchObject({ type: "done", status: "failed" });
+
+    await waitFor(() => onSettled.mock.calls.length > 0);
+    expect(sandboxes.release).toHaveBeenCalledTimes(1);
+    expect(store.get(run.traceId)?.status).toBe("failed");
+  });
+
+  const longRunningCode = (pidFile: string) =>
+    `require("fs").writeFileSync(${JSON.stringify(pidFile)}, String(process.pid)); setInterval(() => {}, 1000);`;
+
+  it("cancels a run by trace id and kills the running command", async () => {
+    const pidFile = path.join(workDir, "pid");
+    const sandboxes = localSandboxes();
+    const onSettled = vi.fn();
+    const run = await createRunner(
+      [{ toolCalls: [runCode(longRunningCode(pidFile))] }],
+      sandboxes,
+    ).run({ ownerId: "test", prompt: "p", modelChain: ["m"], onSettled });
+
+    const reading = readEvents(run);
+    await waitFor(
+      () => existsSync(pidFile) && readFileSync(pidFile).length > 0,
+    );
+    const pid = Number(readFileSync(pidFile, "utf8"));
+    expect(isRunActive(run.traceId)).toBe(true);
+
+    expect(cancelRun(run.traceId, "Stopped by the test.")).toBe(true);
+    const events = await reading;
+
+    expect(events).toContainEqual({
+      type: "run-cancelled",
+      reason: "Stopped by the test.",
+    });
+    expect(events.at(-1)).toMatchObject({ type: "done", status: "cancelled" });
+    await waitFor(() => !isAlive(pid));
+    await waitFor(() => onSettled.mock.calls.length > 0);
+    expect(sandboxes.release).toHaveBeenCalledTimes(1);
+    expect(isRunActive(run.traceId)).toBe(false);
+    expect(store.get(run.traceId)?.status).toBe("cancelled");
+  });
+
+  it("cancels a run when its signal aborts", async () => {
+    const pidFile = path.join(workDir, "pid");
+    const sandboxes = localSandboxes();
+    const onSettled = vi.fn();
+    const controller = new AbortController();
+    const run = await createRunner(
+      [{ toolCalls: [runCode(longRunningCode(pidFile))] }],
+      sandboxes,
+    ).run({
+      ownerId: "test",
+      prompt: "p",
+      modelChain: ["m"],
+      signal: controller.signal,
+      onSettled,
+    });
+
+    const reading = readEvents(run);
+    await waitFor(
+      () => existsSync(pidFile) && readFileSync(pidFile).length > 0,
+    );
+    const pid = Number(readFileSync(pidFile, "utf8"));
+
+    controller.abort();
+    const events = await reading;
+
+    expect(events).toContainEqual({
+      type: "run-cancelled",
+      reason: "The client disconnected.",
+    });
+    await waitFor(() => !isAlive(pid));
+    await waitFor(() => onSettled.mock.calls.length > 0);
+    expect(sandboxes.release).toHaveBeenCalledTimes(1);
+    expect(store.get(run.traceId)?.events).toContainEqual(
+      expect.objectContaining({ type: "run-cancelled" }),
+    );
+  });
+
+  it("throws when no model in the chain starts and still settles", async () => {
+    const onSettled = vi.fn();
+    const runner = createAgentRunner({
+      createModel: (modelId) =>
+        new MockLanguageModelV3({
+          modelId,
+          doStream: async () => {
+            throw new Error(`${modelId} is unavailable.`);
+          },
+        }),
+      sandboxes: localSandboxes(),
+      traces: createTraceRecorder(store),
+      loadToolPolicy: async () => ({}),
+    });
+
+    await expect(
+      runner.run({
+        traceId: "chain-failure",
+        ownerId: "test",
+        prompt: "p",
+        modelChain: ["first", "second"],
+        onSettled,
+      }),
+    ).rejects.toThrow("No model in the fallback chain could start a response.");
+
+    expect(onSettled).toHaveBeenCalledWith({ messages: null });
+    expect(isRunActive("chain-failure")).toBe(false);
+    expect(store.get("chain-failure")).toMatchObject({
+      status: "failed",
+      finishedAt: expect.any(Number),
+    });
+    expect(store.get("chain-failure")?.failedModels).toHaveLength(2);
+  });
+});
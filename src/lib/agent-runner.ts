@@ -0,0 +1,1156 @@
+import { randomUUID } from "crypto";
+import {
+  ToolLoopAgent,
+  stepCountIs,
+  tool,
+  zodSchema,
+  type LanguageModel,
+  type ModelMessage,
+  type ToolSet,
+} from "ai";
+import { z } from "zod";
+import type { TraceRecorder, TraceRunStatus } from "@/lib/agent-traces";
+import { openStream } from "@/lib/agent-fallback";
+import { cancelApprovals, waitForApproval } from "@/lib/agent-approvals";
+import { registerRun, unregisterRun } from "@/lib/agent-cancellation";
+import { fetchJson } from "@/lib/safe-fetch";
+import { createRedactor, type AgentSecret } from "@/lib/agent-secrets";
+import { buildRunResult, getOutputLimits } from "@/lib/sandbox-output";
+import {
+  DEPENDENCY_ARCHIVE,
+  DEPENDENCY_BUILD_ROOT,
+  DEPENDENCY_FILES,
+  applyNpmPins,
+  dependencyCacheKey,
+  getCachedDependencies,
+  lockfileHash,
+  readSandboxFile,
+  resolvedVersions,
+  saveCachedDependencies,
+} from "@/lib/dependency-cache";
+import {
+  abortSignalFor,
+  getExecutionLimits,
+  isTimedOut,
+  timeoutMessage,
+  withLimits,
+  type MemoryLimitMode,
+  type SandboxExecutionLimits,
+} from "@/lib/sandbox-limits";
+import {
+  checkFetchHost,
+  checkPackages,
+  isSandboxNetworkAllowed,
+  loadToolPolicy,
+  withoutNetwork,
+  type ToolPolicy,
+} from "@/lib/tool-policy";
+import {
+  ARTIFACT_DIR,
+  collectSandboxArtifacts,
+  saveArtifacts,
+  toArtifactInfo,
+} from "@/lib/agent-artifacts";
+import type { SandboxFactory, SandboxInstance } from "@/lib/sandbox-manager";
+import {
+  LANGUAGE_SPECS,
+  PACKAGE_SPEC_PATTERN,
+  SANDBOX_LANGUAGES,
+  type LanguageSpec,
+  type SandboxCommandSpec,
+} from "@/lib/sandbox-languages";
+import {
+  MAX_PROJECT_FILES,
+  projectCommand,
+  projectInputSchema,
+  projectLanguage,
+  projectTree,
+} from "@/lib/sandbox-project";
+import {
+  toAgentUsage,
+  type AgentStreamEvent,
+  type AgentUsage,
+} from "@/lib/agent-events";
+
+export const SANDBOX_CWD = "/vercel/sandbox";
+// A run that still wants tools after this many steps ends as
+// `step-limit-reached`.
+const MAX_STEPS = 6;
+
+const toolInputSchema = z.object({
+  code: z.string().min(1).max(6000),
+  language: z.enum(SANDBOX_LANGUAGES).default("javascript"),
+  packages: z.array(z.string().regex(PACKAGE_SPEC_PATTERN)).max(5).optional(),
+});
+
+const fetchJsonInputSchema = z.object({
+  url: z.string().url(),
+});
+
+/**
+ * Everything a run touches outside this module. The route wires in the AI
+ * Gateway, Vercel sandboxes and the app's trace store; a local setup can pass
+ * a mock model, `createLocalSandbox` and a memory trace store instead.
+ */
+export type AgentRunnerDeps = {
+  /** Turns a model id from the fallback chain into a language model. */
+  createModel: (modelId: string) => LanguageModel;
+  sandboxes: SandboxFactory;
+  traces: TraceRecorder;
+  loadToolPolicy?: () => Promise<ToolPolicy>;
+  /**
+   * Tools that replace the built-in fetchJson, runInSandbox or runProject of
+   * the same name, e.g. with recorded outputs for an offline replay.
+   */
+  createTools?: (helpers: AgentToolHelpers) => ToolSet;
+};
+
+export type AgentToolHelpers = {
+  /**
+   * Marks a call as refused so it is traced as tool-output-denied; returns
+   * `message` (by default naming the tool policy) for the tool to hand back.
+   */
+  denyToolCall: (
+    toolCallId: string,
+    reason: string,
+    message?: string,
+  ) => string;
+};
+
+export type AgentRunInput = {
+  traceId?: string;
+  ownerId: string;
+  prompt: string;
+  /** Tried in order until one starts streaming. */
+  modelChain: string[];
+  /** Earlier turns of a multi-turn session. */
+  history?: ModelMessage[];
+  uploads?: { name: string; content: Buffer }[];
+  requireApproval?: boolean;
+  /**
+   * Set as env vars on every sandbox command. Their values are redacted from
+   * tool results before the model, the stream or the trace sees them.
+   */
+  secrets?: AgentSecret[];
+  /** Tells the model that files persist into later turns. */
+  multiTurn?: boolean;
+  /** Overrides the env-configured limits, e.g. for background jobs. */
+  executionLimits?: Partial<SandboxExecutionLimits>;
+  /** Cancels the run when it aborts, e.g. the request's signal. */
+  signal?: AbortSignal;
+  /**
+   * Called once the run is over and its sandboxes are released, however it
+   * ended. `messages` holds the new turn when the run completed.
+   */
+  onSettled?: (outcome: {
+    messages: ModelMessage[] | null;
+  }) => Promise<void> | void;
+};
+
+export type AgentRun = {
+  traceId: string;
+  modelId: string;
+  /**
+   * Cancelling this stream cancels the run. So does `input.signal` or
+   * `cancelRun(traceId)`; the stream then ends with `run-cancelled` and `done`.
+   */
+  events: ReadableStream<AgentStreamEvent>;
+};
+
+export function createAgentRunner(deps: AgentRunnerDeps) {
+  const { traces } = deps;
+
+  /**
+   * Starts a run and resolves once a model in the chain is streaming. If none
+   * can start, the trace is finished, the run is cleaned up and the error is
+   * thrown.
+   */
+  async function run(input: AgentRunInput): Promise<AgentRun> {
+    const traceId = input.traceId ?? randomUUID();
+    const uploads = input.uploads ?? [];
+    const requireApproval = input.requireApproval === true;
+    const secrets = input.secrets ?? [];
+    const { redact, redactText } = createRedactor(secrets);
+    const secretEnv = Object.fromEntries(
+      secrets.map((secret) => [secret.name, secret.value]),
+    );
+    const sandboxes = new Map<string, SandboxInstance>();
+    const abortController = new AbortController();
+
+    let artifactsCollected = false;
+    const collectArtifacts = async () => {
+      if (artifactsCollected) {
+        return [];
+      }
+      artifactsCollected = true;
+
+      const collected = [];
+      for (const sandbox of sandboxes.values()) {
+        try {
+          collected.push(
+            ...(await collectSandboxArtifacts(
+              sandbox,
+              SANDBOX_CWD,
+              redactText,
+            )),
+          );
+        } catch (error) {
+          console.error("Failed to collect sandbox artifacts:", error);
+        }
+      }
+
+      saveArtifacts(traceId, collected);
+      const artifacts = collected.map(toArtifactInfo);
+      traces.recordArtifacts(traceId, artifacts);
+      return artifacts;
+    };
+
+    let responseMessages: ModelMessage[] | null = null;
+    let settled: Promise<void> | null = null;
+    const settle = () => {
+      settled ??= (async () => {
+        await collectArtifacts();
+
+        const running = [...sandboxes];
+        sandboxes.clear();
+        await Promise.all(
+          running.map(async ([runtime, sandbox]) => {
+            const startedAt = Date.now();
+            try {
+              await deps.sandboxes.release(sandbox);
+            } catch (error) {
+              console.error("Failed to release sandbox:", error);
+              return;
+            }
+            if (!deps.sandboxes.persistent) {
+              traces.appendTraceEvent(traceId, {
+                type: "sandbox-stopped",
+                sandboxId: sandbox.sandboxId,
+                runtime,
+                durationMs: Date.now() - startedAt,
+                timestamp: Date.now(),
+              });
+            }
+          }),
+        );
+
+        unregisterRun(traceId);
+        await input.onSettled?.({ messages: responseMessages });
+      })();
+      return settled;
+    };
+
+    // Sandboxes are created on the first sandbox tool call, so runs that only
+    // use fetchJson never wait for a microVM.
+    const getSandbox = async (runtime: string) => {
+      const existing = sandboxes.get(runtime);
+      if (existing) {
+        return existing;
+      }
+
+      const startedAt = Date.now();
+      const created = await deps.sandboxes.acquire(runtime);
+      sandboxes.set(runtime, created);
+      traces.recordSandbox(traceId, created.sandboxId);
+      traces.appendTraceEvent(traceId, {
+        type: "sandbox-created",
+        sandboxId: created.sandboxId,
+        runtime,
+        durationMs: Date.now() - startedAt,
+        ...(deps.sandboxes.persistent ? { session: true as const } : {}),
+        timestamp: Date.now(),
+      });
+
+      if (uploads.length > 0) {
+        await created.writeFiles(
+          uploads.map((file) => ({
+            path: `${SANDBOX_CWD}/${file.name}`,
+            content: file.content,
+          })),
+        );
+      }
+
+      return created;
+    };
+
+    let streamClosed = false;
+    let streamController: ReadableStreamDefaultController<AgentStreamEvent> | null =
+      null;
+    // Events emitted before the stream is read are buffered by the stream.
+    const emit = (event: AgentStreamEvent) => {
+      if (streamController && !streamClosed) {
+        streamController.enqueue(event);
+      }
+    };
+
+    let ended = false;
+    let cancelReason: string | null = null;
+    // Records why the run stopped, then aborts the model call, pending
+    // approvals and every command still running in a sandbox.
+    const cancel = (reason: string) => {
+      if (ended || cancelReason !== null) {
+        return;
+      }
+      cancelReason = reason;
+      traces.appendTraceEvent(traceId, {
+        type: "run-cancelled",
+        reason,
+        timestamp: Date.now(),
+      });
+      emit({ type: "run-cancelled", reason });
+      abortController.abort(new Error(reason));
+      cancelApprovals(traceId, reason);
+    };
+    const onAbort = () => cancel("The client disconnected.");
+
+    try {
+      traces.startTrace({
+        id: traceId,
+        ownerId: input.ownerId,
+        prompt: input.prompt,
+        model: input.modelChain[0],
+        ...(secrets.length > 0
+          ? { secretNames: secrets.map((secret) => secret.name) }
+          : {}),
+        requireApproval,
+      });
+      registerRun(traceId, cancel);
+      input.signal?.addEventListener("abort", onAbort, { once: true });
+      if (input.signal?.aborted) {
+        onAbort();
+      }
+      if (uploads.length > 0) {
+        traces.recordUploads(
+          traceId,
+          uploads.map((file) => ({
+            name: file.name,
+            size: file.content.length,
+          })),
+        );
+      }
+
+      const toolPolicy = await (deps.loadToolPolicy ?? loadToolPolicy)();
+      const sandboxNetwork = isSandboxNetworkAllowed(toolPolicy);
+      // Calls refused by the policy, keyed by toolCallId. Their results are
+      // traced as tool-output-denied instead of tool-result.
+      const deniedCalls = new Map<string, string>();
+      const denyToolCall = (
+        toolCallId: string,
+        reason: string,
+        message = `Denied by tool policy: ${reason}`,
+      ) => {
+        deniedCalls.set(toolCallId, reason);
+        return message;
+      };
+
+      const awaitApproval = async (
+        toolCallId: string,
+        toolName: string,
+        toolInput: unknown,
+      ) => {
+        const requestedAt = Date.now();
+        traces.recordApproval(traceId, {
+          toolCallId,
+          status: "pending",
+          requestedAt,
+        });
+        emit({
+          type: "approval-requested",
+          toolCallId,
+          toolName,
+          input: toolInput,
+        });
+
+        const decision = await waitForApproval(traceId, toolCallId);
+        traces.recordApproval(traceId, {
+          toolCallId,
+          status: decision.approved ? "approved" : "rejected",
+          requestedAt,
+          decidedAt: Date.now(),
+          reason: decision.approved ? undefined : decision.reason,
+        });
+        return decision;
+      };
+
+      const executionLimits = {
+        ...getExecutionLimits(),
+        ...input.executionLimits,
+      };
+
+      const runTimedCommand = async (
+        sandbox: SandboxInstance,
+        params: SandboxCommandSpec & {
+          cwd: string;
+          env?: Record<string, string>;
+        },
+        limits: {
+          timeoutMs: number;
+          memoryMode?: MemoryLimitMode;
+          /** Only the model's own code gets secrets, never installs. */
+          withSecrets?: boolean;
+        },
+      ) => {
+        const limited = withLimits(params, {
+          timeoutMs: limits.timeoutMs,
+          maxOutputBytes: executionLimits.maxOutputBytes,
+          memoryMb: executionLimits.memoryMb,
+          memoryMode: limits.memoryMode,
+        });
+        const command = sandboxNetwork
+          ? limited
+          : { ...withoutNetwork(limited), env: limited.env };
+        // Either limit's backstop or a cancelled run kills the command.
+        const signal = AbortSignal.any([
+          abortSignalFor(limited),
+          abortController.signal,
+        ]);
+
+        const startedAt = Date.now();
+        let exitCode: number | null = null;
+        let stdout = "";
+        let stderr = "";
+        try {
+          const finished = await sandbox.runCommand({
+            cmd: command.cmd,
+            args: command.args,
+            env: {
+              ...(limits.withSecrets ? secretEnv : {}),
+              ...params.env,
+              ...command.env,
+            },
+            cwd: params.cwd,
+            signal,
+          });
+          exitCode = finished.exitCode;
+          // Redacted before truncation so a cap never splits a secret.
+          stdout = redactText(await finished.stdout());
+          stderr = redactText(await finished.stderr());
+        } catch (error) {
+          // The backstop fired: the in-sandbox timeout did not end the command.
+          if (!signal.aborted) {
+            throw error;
+          }
+        }
+
+        const durationMs = Date.now() - startedAt;
+        traces.recordSandboxCommand(traceId, {
+          // Only the subcommand is recorded; `-e`/`-c` args hold the full code.
+          command: [params.cmd, params.args[0]].join(" "),
+          startedAt,
+          durationMs,
+          exitCode,
+        });
+
+        if (abortController.signal.aborted) {
+          throw new Error(cancelReason ?? "The run was cancelled.");
+        }
+
+        const timedOut = isTimedOut(exitCode, durationMs, limits.timeoutMs);
+        return {
+          exitCode,
+          stdout,
+          stderr,
+          durationMs,
+          timedOut,
+          error: timedOut ? timeoutMessage(limits.timeoutMs) : undefined,
+        };
+      };
+
+      const outputLimits = getOutputLimits();
+
+      // Retries each install command once; a flaky registry is the usual cause.
+      const runInstall = async (
+        sandbox: SandboxInstance,
+        commands: SandboxCommandSpec[],
+        where: { cwd: string; env?: Record<string, string> } = {
+          cwd: SANDBOX_CWD,
+        },
+      ) => {
+        let log = "";
+        let durationMs = 0;
+        for (const command of commands) {
+          const attempt = () =>
+            runTimedCommand(
+              sandbox,
+              { ...command, ...where },
+              { timeoutMs: executionLimits.installTimeoutMs },
+            );
+          let install = await attempt();
+          durationMs += install.durationMs;
+          if (install.exitCode !== 0 && !install.timedOut) {
+            install = await attempt();
+            durationMs += install.durationMs;
+          }
+
+          log += install.stdout + install.stderr;
+          if (install.exitCode !== 0) {
+            return { log, failed: install, durationMs };
+          }
+        }
+        return { log, failed: null, durationMs };
+      };
+
+      // npm installs are cached as a tarball keyed by the sorted package set
+      // and restored on later runs, and every run records the versions it
+      // resolved. A miss installs into a fresh directory with its own npm
+      // cache, never the working directory: code that already ran in this
+      // sandbox may have planted files there, and the cache is shared by
+      // every caller.
+      const installNpmPackages = async (
+        sandbox: SandboxInstance,
+        spec: LanguageSpec,
+        packages: string[],
+        toolCallId: string,
+      ) => {
+        const pinned = applyNpmPins(packages, toolPolicy.sandbox?.npmVersions);
+        const cacheKey = dependencyCacheKey(spec.runtime, pinned);
+        const recordInstall = (cacheHit: boolean, lockfile: string | null) =>
+          traces.recordDependencyInstall(traceId, {
+            toolCallId,
+            packages: pinned,
+            cacheKey,
+            cacheHit,
+            resolved: lockfile ? resolvedVersions(lockfile) : [],
+            lockfileSha256: lockfile ? lockfileHash(lockfile) : null,
+          });
+        const runStep = (args: string[], cwd = SANDBOX_CWD) =>
+          runTimedCommand(
+            sandbox,
+            { cmd: args[0], args: args.slice(1), cwd },
+            { timeoutMs: executionLimits.installTimeoutMs },
+          );
+        const restore = async (archive: Buffer) => {
+          await sandbox.writeFiles([
+            { path: `${SANDBOX_CWD}/${DEPENDENCY_ARCHIVE}`, content: archive },
+          ]);
+          const unpacked = await runStep(["tar", "-xzf", DEPENDENCY_ARCHIVE]);
+          await runStep(["rm", "-f", DEPENDENCY_ARCHIVE]);
+          return unpacked;
+        };
+
+        const cached = await getCachedDependencies(cacheKey);
+        if (cached && (await restore(cached.archive)).exitCode === 0) {
+          recordInstall(true, cached.lockfile);
+          return {
+            log: `Restored ${pinned.join(", ")} from the dependency cache.`,
+            failed: null,
+            cacheHit: true,
+          };
+        }
+
+        // Command args stay relative to the cwd; only `cwd` is absolute.
+        const buildPath = `${DEPENDENCY_BUILD_ROOT}/${randomUUID()}`;
+        const buildDir = `${SANDBOX_CWD}/${buildPath}`;
+        try {
+          const created = await runStep(["mkdir", "-p", buildPath]);
+          if (created.exitCode !== 0) {
+            return {
+              log: created.stdout + created.stderr,
+              failed: created,
+              cacheHit: false,
+            };
+          }
+
+          const install = {
+            ...(await runInstall(sandbox, spec.install(pinned), {
+              cwd: buildDir,
+              env: { npm_config_cache: ".npm-cache" },
+            })),
+            cacheHit: false,
+          };
+          if (install.failed) {
+            return install;
+          }
+
+          const lockfile =
+            (
+              await readSandboxFile(sandbox, "package-lock.json", buildDir)
+            )?.toString("utf8") ?? null;
+          const pack = await runStep(
+            ["tar", "-czf", DEPENDENCY_ARCHIVE, ...DEPENDENCY_FILES],
+            buildDir,
+          );
+          const archive =
+            pack.exitCode === 0
+              ? await readSandboxFile(sandbox, DEPENDENCY_ARCHIVE, buildDir)
+              : null;
+          if (!archive) {
+            return { ...install, failed: pack };
+          }
+
+          const unpacked = await restore(archive);
+          if (unpacked.exitCode !== 0) {
+            return { ...install, failed: unpacked };
+          }
+
+          recordInstall(false, lockfile);
+          if (lockfile) {
+            await saveCachedDependencies(cacheKey, { archive, lockfile });
+          }
+          return install;
+        } finally {
+          await runStep(["rm", "-rf", buildPath]);
+          await runStep([
+            "rmdir",
+            "--ignore-fail-on-non-empty",
+            DEPENDENCY_BUILD_ROOT,
+          ]);
+        }
+      };
+
+      const installPackages = async (
+        sandbox: SandboxInstance,
+        spec: LanguageSpec,
+        packages: string[],
+        toolCallId: string,
+      ) => {
+        const startedAt = Date.now();
+        const install =
+          spec.packageManager === "npm"
+            ? await installNpmPackages(sandbox, spec, packages, toolCallId)
+            : {
+                ...(await runInstall(sandbox, spec.install(packages))),
+                cacheHit: false,
+              };
+
+        traces.appendTraceEvent(traceId, {
+          type: "install-result",
+          toolCallId,
+          packageManager: spec.packageManager,
+          packages,
+          cacheHit: install.cacheHit,
+          exitCode: install.failed ? install.failed.exitCode : 0,
+          timedOut: install.failed?.timedOut ?? false,
+          durationMs: Date.now() - startedAt,
+          log: install.log.trim().slice(0, outputLimits.installLogChars),
+          timestamp: Date.now(),
+        });
+        return install;
+      };
+
+      // Policy and reviewer checks shared by the sandbox tools. Returns the
+      // message to hand back to the model when the call may not run.
+      const checkSandboxCall = async (
+        toolCallId: string,
+        toolName: string,
+        spec: LanguageSpec,
+        packages: string[] | undefined,
+        toolInput: unknown,
+      ) => {
+        const packageDenial = checkPackages(
+          toolPolicy,
+          spec.packageManager,
+          packages ?? [],
+        );
+        if (packageDenial) {
+          return denyToolCall(toolCallId, packageDenial);
+        }
+
+        if (requireApproval) {
+          const decision = await awaitApproval(toolCallId, toolName, toolInput);
+          if (!decision.approved) {
+            return denyToolCall(
+              toolCallId,
+              decision.reason,
+              `Rejected by reviewer: ${decision.reason}`,
+            );
+          }
+        }
+
+        return null;
+      };
+
+      const tools: ToolSet = {
+        fetchJson: tool({
+          description:
+            "Fetch JSON from a public HTTP endpoint without running code in the sandbox.",
+          inputSchema: zodSchema(fetchJsonInputSchema),
+          execute: async ({ url }, { toolCallId }) => {
+            let denial: string | null = null;
+            try {
+              return redact(
+                await fetchJson(url, {
+                  checkHost: (hostname) => {
+                    denial = checkFetchHost(toolPolicy, hostname);
+                    return denial === null;
+                  },
+                }),
+              );
+            } catch (error) {
+              if (denial) {
+                return denyToolCall(toolCallId, denial);
+              }
+              throw error instanceof Error
+                ? new Error(redactText(error.message))
+                : error;
+            }
+          },
+        }),
+        runInSandbox: tool({
+          description:
+            "Install optional npm or pip packages and execute JavaScript, TypeScript or Python in a sandboxed runtime. Returns exitCode, stdout, stderr, durationMs, an installLog when packages were installed, and flags for output that was truncated.",
+          inputSchema: zodSchema(toolInputSchema),
+          execute: async ({ code, language, packages }, { toolCallId }) => {
+            const cwd = SANDBOX_CWD;
+            const spec = LANGUAGE_SPECS[language];
+            const refusal = await checkSandboxCall(
+              toolCallId,
+              "runInSandbox",
+              spec,
+              packages,
+              { code, language, packages },
+            );
+            if (refusal) {
+              return refusal;
+            }
+
+            const sandbox = await getSandbox(spec.runtime);
+            const finish = (raw: Parameters<typeof buildRunResult>[0]) => {
+              const result = buildRunResult(raw, outputLimits);
+              traces.recordSandboxRun(traceId, {
+                toolCallId,
+                language,
+                ...result,
+              });
+              return result;
+            };
+
+            let installLog: string | undefined;
+            if (packages?.length) {
+              const install = await installPackages(
+                sandbox,
+                spec,
+                packages,
+                toolCallId,
+              );
+              installLog = install.log;
+              if (install.failed) {
+                return finish({
+                  phase: "install",
+                  exitCode: install.failed.exitCode,
+                  stdout: "",
+                  stderr: "",
+                  durationMs: install.failed.durationMs,
+                  timedOut: install.failed.timedOut,
+                  error: install.failed.error,
+                  installLog,
+                });
+              }
+            }
+
+            if (spec.entryFile) {
+              await sandbox.writeFiles([
+                {
+                  path: `${cwd}/${spec.entryFile}`,
+                  content: Buffer.from(code),
+                },
+              ]);
+            }
+
+            const command = await runTimedCommand(
+              sandbox,
+              { ...spec.run(code), cwd },
+              {
+                timeoutMs: executionLimits.runTimeoutMs,
+                memoryMode: spec.memoryLimit,
+                withSecrets: true,
+              },
+            );
+
+            return finish({ phase: "run", ...command, installLog });
+          },
+        }),
+        runProject: tool({
+          description:
+            "Write several files into the sandbox working directory and run an entry file (.js, .mjs, .cjs, .ts or .py) or an npm script from the included package.json. Accepts optional packages to install first and returns the same result as runInSandbox.",
+          inputSchema: zodSchema(projectInputSchema),
+          execute: async (project, { toolCallId }) => {
+            const cwd = SANDBOX_CWD;
+            const language = projectLanguage(project);
+            const spec = LANGUAGE_SPECS[language];
+            const refusal = await checkSandboxCall(
+              toolCallId,
+              "runProject",
+              spec,
+              project.packages,
+              project,
+            );
+            if (refusal) {
+              return refusal;
+            }
+
+            const sandbox = await getSandbox(spec.runtime);
+            const files = projectTree(project.files);
+            const finish = (raw: Parameters<typeof buildRunResult>[0]) => {
+              const result = buildRunResult(raw, outputLimits);
+              traces.recordSandboxRun(traceId, {
+                toolCallId,
+                language,
+                project: {
+                  files,
+                  ...(project.entry ? { entry: project.entry } : {}),
+                  ...(project.script ? { script: project.script } : {}),
+                },
+                ...result,
+              });
+              return result;
+            };
+
+            // Packages go in first: the install writes its own
+            // package.json, which the project's files then replace.
+            let installLog: string | undefined;
+            if (project.packages?.length) {
+              const install = await installPackages(
+                sandbox,
+                spec,
+                project.packages,
+                toolCallId,
+              );
+              installLog = install.log;
+              if (install.failed) {
+                return finish({
+                  phase: "install",
+                  exitCode: install.failed.exitCode,
+                  stdout: "",
+                  stderr: "",
+                  durationMs: install.failed.durationMs,
+                  timedOut: install.failed.timedOut,
+                  error: install.failed.error,
+                  installLog,
+                });
+              }
+            }
+
+            await sandbox.writeFiles(
+              Object.entries(project.files).map(([file, content]) => ({
+                path: `${cwd}/${file}`,
+                content: Buffer.from(content),
+              })),
+            );
+
+            const command = await runTimedCommand(
+              sandbox,
+              { ...projectCommand(project), cwd },
+              {
+                timeoutMs: executionLimits.runTimeoutMs,
+                memoryMode: spec.memoryLimit,
+                withSecrets: true,
+              },
+            );
+
+            return finish({ phase: "run", ...command, installLog });
+          },
+        }),
+        ...deps.createTools?.({ denyToolCall }),
+      };
+
+      const createAgent = (modelId: string) =>
+        new ToolLoopAgent({
+          model: deps.createModel(modelId),
+          instructions: [
+            "You are a coding assistant that can execute JavaScript, TypeScript or Python in a locked sandbox.",
+            "Use fetchJson for direct JSON API lookups when possible.",
+            "Use runInSandbox for calculations, data transforms, or when you need npm or pip packages.",
+            "Set its language field to pick the runtime:",
+            ...SANDBOX_LANGUAGES.map(
+              (language) => LANGUAGE_SPECS[language].instructions,
+            ),
+            "Prefer python for data analysis and statistics.",
+            `For programs that need several files, ES modules or a package.json script, use runProject with a map of relative paths to contents (at most ${MAX_PROJECT_FILES} files) and either an entry file or an npm script.`,
+            "If you execute code, print the final answer to stdout and keep outputs concise.",
+            `Each run is stopped after ${executionLimits.runTimeoutMs / 1000}s and each package install after ${executionLimits.installTimeoutMs / 1000}s; a timedOut result means the code must do less work or avoid waiting.`,
+            "Avoid reading environment variables or the filesystem unless the task truly requires it.",
+            ...(uploads.length > 0
+              ? [
+                  `The user uploaded these files to the sandbox working directory: ${uploads
+                    .map((file) => file.name)
+                    .join(", ")}.`,
+                ]
+              : []),
+            `To return files to the user, write them to ${ARTIFACT_DIR}/ in the working directory; they are offered as downloads after the run.`,
+            ...(requireApproval
+              ? [
+                  "A person reviews every runInSandbox and runProject call before it runs. If a call is rejected, use the reason to revise the code or explain why you cannot continue.",
+                ]
+              : []),
+            ...(secrets.length > 0
+              ? [
+                  `These secrets are set as environment variables for runInSandbox and runProject code: ${secrets
+                    .map((secret) => secret.name)
+                    .join(
+                      ", ",
+                    )}. Read them from the environment when a task needs them, never print them, and expect them to appear as [REDACTED:name] in any output.`,
+                ]
+              : []),
+            ...(input.multiTurn
+              ? [
+                  "This is a multi-turn conversation: files written to /vercel/sandbox stay available in later turns.",
+                ]
+              : []),
+          ].join(" "),
+          tools,
+          stopWhen: stepCountIs(MAX_STEPS),
+        });
+
+      const userMessage: ModelMessage = {
+        role: "user",
+        content: input.prompt,
+      };
+      const messages = [...(input.history ?? []), userMessage];
+
+      const startStream = async (modelId: string) => {
+        try {
+          const attempt = await createAgent(modelId).stream({
+            messages,
+            abortSignal: abortController.signal,
+          });
+          return {
+            modelId,
+            result: attempt,
+            opened: await openStream(attempt.fullStream),
+          };
+        } catch (error) {
+          return {
+            modelId,
+            result: null,
+            opened: { ok: false as const, error },
+          };
+        }
+      };
+
+      let started: Awaited<ReturnType<typeof startStream>> | null = null;
+      for (const modelId of input.modelChain) {
+        const attempt = await startStream(modelId);
+        if (attempt.opened.ok) {
+          traces.setTraceModel(traceId, modelId);
+          started = attempt;
+          break;
+        }
+
+        const message =
+          attempt.opened.error instanceof Error
+            ? attempt.opened.error.message
+            : String(attempt.opened.error);
+        console.error(`Model ${modelId} failed before streaming:`, message);
+        traces.recordModelFailure(traceId, { model: modelId, error: message });
+      }
+
+      if (!started?.result || !started.opened.ok) {
+        throw new Error(
+          cancelReason ??
+            "No model in the fallback chain could start a response.",
+        );
+      }
+
+      const result = started.result;
+      const fullStream = started.opened.parts;
+
+      const events = new ReadableStream<AgentStreamEvent>({
+        async start(controller) {
+          streamController = controller;
+          let finishReason: string | undefined;
+          let totalUsage: AgentUsage | undefined;
+          let stepText = "";
+          let step = 0;
+          let answer: string | undefined;
+          let failed = false;
+
+          try {
+            for await (const part of fullStream) {
+              if (part.type === "text-delta") {
+                stepText += part.text;
+                emit({ type: "text-delta", text: part.text });
+              }
+
+              if (part.type === "start-step") {
+                traces.appendTraceEvent(traceId, {
+                  type: "step-start",
+                  step,
+                  timestamp: Date.now(),
+                });
+              }
+
+              if (part.type === "tool-call") {
+                const toolInput = redact(part.input);
+                traces.appendTraceEvent(traceId, {
+                  type: "tool-call",
+                  toolCallId: part.toolCallId,
+                  toolName: part.toolName,
+                  input: toolInput,
+                  timestamp: Date.now(),
+                });
+                emit({
+                  type: "tool-call",
+                  toolCallId: part.toolCallId,
+                  toolName: part.toolName,
+                  input: toolInput,
+                });
+              }
+
+              if (
+                part.type === "tool-result" &&
+                deniedCalls.has(part.toolCallId)
+              ) {
+                const reason = deniedCalls.get(part.toolCallId)!;
+                traces.appendTraceEvent(traceId, {
+                  type: "tool-output-denied",
+                  toolCallId: part.toolCallId,
+                  toolName: part.toolName,
+                  reason,
+                  timestamp: Date.now(),
+                });
+                emit({
+                  type: "tool-output-denied",
+                  toolCallId: part.toolCallId,
+                  toolName: part.toolName,
+                  reason,
+                });
+              } else if (part.type === "tool-result") {
+                const output = redact(part.output);
+                traces.appendTraceEvent(traceId, {
+                  type: "tool-result",
+                  toolCallId: part.toolCallId,
+                  toolName: part.toolName,
+                  output,
+                  timestamp: Date.now(),
+                });
+                emit({
+                  type: "tool-result",
+                  toolCallId: part.toolCallId,
+                  toolName: part.toolName,
+                  output,
+                });
+              }
+
+              if (part.type === "tool-error") {
+                const message = redactText(
+                  part.error instanceof Error
+                    ? part.error.message
+                    : String(part.error),
+                );
+                traces.appendTraceEvent(traceId, {
+                  type: "tool-error",
+                  toolCallId: part.toolCallId,
+                  toolName: part.toolName,
+                  error: message,
+                  timestamp: Date.now(),
+                });
+                emit({
+                  type: "tool-error",
+                  toolCallId: part.toolCallId,
+                  toolName: part.toolName,
+                  error: message,
+                });
+              }
+
+              if (part.type === "tool-output-denied") {
+                traces.appendTraceEvent(traceId, {
+                  type: "tool-output-denied",
+                  toolCallId: part.toolCallId,
+                  toolName: part.toolName,
+                  timestamp: Date.now(),
+                });
+              }
+
+              if (part.type === "finish-step") {
+                traces.recordStepUsage(traceId, {
+                  ...toAgentUsage(part.usage),
+                  finishReason: part.finishReason,
+                  finishedAt: Date.now(),
+                  text: stepText,
+                });
+                traces.appendTraceEvent(traceId, {
+                  type: "step-finish",
+                  step,
+                  finishReason: part.finishReason,
+                  timestamp: Date.now(),
+                });
+                if (stepText.trim()) {
+                  answer = stepText;
+                }
+                step += 1;
+                stepText = "";
+                emit({
+                  type: "step-finish",
+                  finishReason: part.finishReason,
+                  usage: toAgentUsage(part.usage),
+                });
+              }
+
+              if (part.type === "finish") {
+                finishReason = part.finishReason;
+                totalUsage = toAgentUsage(part.totalUsage);
+                traces.recordRunUsage(traceId, totalUsage);
+              }
+            }
+
+            if (!abortController.signal.aborted) {
+              const response = await result.response;
+              responseMessages = [userMessage, ...response.messages];
+            }
+          } catch (error) {
+            // A cancelled run already recorded why it stopped.
+            if (cancelReason === null) {
+              failed = true;
+              const message = redactText(
+                error instanceof Error ? error.message : String(error),
+              );
+              traces.appendTraceEvent(traceId, {
+                type: "tool-error",
+                error: message,
+                timestamp: Date.now(),
+              });
+              emit({ type: "tool-error", error: message });
+            }
+          } finally {
+            ended = true;
+            input.signal?.removeEventListener("abort", onAbort);
+            const status: TraceRunStatus =
+              cancelReason !== null
+                ? "cancelled"
+                : failed || finishReason === "error"
+                  ? "failed"
+                  : finishReason === "tool-calls" && step >= MAX_STEPS
+                    ? "step-limit-reached"
+                    : "succeeded";
+            traces.finishTrace(traceId, { status, answer });
+            const artifacts = await collectArtifacts();
+            emit({
+              type: "done",
+              traceId,
+              status,
+              finishReason,
+              usage: totalUsage,
+              artifacts: artifacts.map((artifact) => artifact.name),
+            });
+            if (!streamClosed) {
+              streamClosed = true;
+              controller.close();
+            }
+            await settle();
+          }
+        },
+        async cancel() {
+          streamClosed = true;
+          cancel("The client disconnected.");
+          traces.finishTrace(traceId, { status: "cancelled" });
+          await settle();
+        },
+      });
+
+      return { traceId, modelId: started.modelId, events };
+    } catch (error) {
+      ended = true;
+      input.signal?.removeEventListener("abort", onAbort);
+      traces.finishTrace(traceId, {
+        status: cancelReason !== null ? "cancelled" : "failed",
+      });
+      await settle();
+      throw error;
+    }
+  }
+
+  return { run };
+}
+
+export type AgentRunner = ReturnType<typeof createAgentRunner>;
@@ -0,0 +1,117 @@
+import { z } from "zod";
+
+// Short values would redact ordinary words and numbers out of every output.
+const MIN_SECRET_LENGTH = 8;
+// A secret cut off by an output cap still leaks this much at the end.
+const MIN_PARTIAL_LENGTH = 4;
+
+const secretsSchema = z.record(
+  z.string().regex(/^[A-Z_][A-Z0-9_]{0,63}$/),
+  z.string().min(MIN_SECRET_LENGTH),
+);
+
+export type AgentSecret = { name: string; value: string };
+
+/**
+ * Secrets from `AGENT_SECRETS`, a JSON object of `{ "NAME": "value" }`. A
+ * malformed value yields no secrets, so requests that ask for one fail.
+ */
+function readSecrets(): Record<string, string> {
+  try {
+    const parsed = secretsSchema.safeParse(
+      JSON.parse(process.env.AGENT_SECRETS ?? "{}"),
+    );
+    if (parsed.success) {
+      return parsed.data;
+    }
+    console.error("Invalid AGENT_SECRETS:", parsed.error.message);
+  } catch (error) {
+    console.error("Invalid AGENT_SECRETS:", error);
+  }
+  return {};
+}
+
+/** Looks up the secrets a request selected by name. */
+export function resolveSecrets(
+  names: string[],
+): { ok: true; secrets: AgentSecret[] } | { ok: false; error: string } {
+  const configured = readSecrets();
+  const secrets: AgentSecret[] = [];
+
+  for (const name of new Set(names)) {
+    if (!Object.hasOwn(configured, name)) {
+      return { ok: false, error: `Unknown secret "${name}".` };
+    }
+    secrets.push({ name, value: configured[name] });
+  }
+
+  return { ok: true, secrets };
+}
+
+export type Redactor = {
+  redactText(text: string): string;
+  /** Redacts every string inside arrays and plain objects. */
+  redact<T>(value: T): T;
+};
+
+/**
+ * Replaces each secret with `[REDACTED:name]`, including its URL-encoded and
+ * base64 forms and a prefix left at the very end of the text by an output cap.
+ */
+export function createRedactor(secrets: AgentSecret[]): Redactor {
+  const needles = secrets
+    .flatMap(({ name, value }) =>
+      [
+        ...new Set([
+          value,
+          encodeURIComponent(value),
+          Buffer.from(value).toString("base64"),
+        ]),
+      ].map((needle) => ({ needle, replacement: `[REDACTED:${name}]` })),
+    )
+    .sort((left, right) => right.needle.length - left.needle.length);
+
+  const redactText = (text: string) => {
+    let redacted = needles.reduce(
+      (current, { needle, replacement }) =>
+        current.split(needle).join(replacement),
+      text,
+    );
+
+    for (const { name, value } of secrets) {
+      for (
+        let length = value.length - 1;
+        length >= MIN_PARTIAL_LENGTH;
+        length -= 1
+      ) {
+        if (redacted.endsWith(value.slice(0, length))) {
+          redacted = `${redacted.slice(0, -length)}[REDACTED:${name}]`;
+          break;
+        }
+      }
+    }
+
+    return redacted;
+  };
+
+  const redactValue = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      return redactText(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(redactValue);
+    }
+    if (value && typeof value === "object" && value.constructor === Object) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, redactValue(entry)]),
+      );
+    }
+    return value;
+  };
+
+  return {
+    redactText: secrets.length > 0 ? redactText : (text) => text,
+    redact: <T>(value: T) =>
+      secrets.length > 0 ? (redactValue(value) as T) : value,
+  };
+}
@@ -0,0 +1,214 @@
+import { randomUUID } from "crypto";
+import type { ModelMessage } from "ai";
+import { commandBudgetMs, getExecutionLimits } from "@/lib/sandbox-limits";
+import {
+  getSandboxManager,
+  keepSandboxAlive,
+  type LeasedSandbox,
+  type SandboxFactory,
+} from "@/lib/sandbox-manager";
+
+export type AgentSession = {
+  id: string;
+  ownerId: string;
+  createdAt: number;
+  lastActiveAt: number;
+  messages: ModelMessage[];
+  traceIds: string[];
+  /** One sandbox per runtime (e.g. node22, python3.13), created on demand. */
+  sandboxes: Map<string, LeasedSandbox>;
+  busy: boolean;
+};
+
+type SessionStore = {
+  sessions: Map<string, AgentSession>;
+  order: string[];
+};
+
+const MAX_SESSIONS = 25;
+const SESSION_IDLE_TTL_MS = 10 * 60_000;
+
+const globalForSessions = globalThis as typeof globalThis & {
+  __agentSessionStore?: SessionStore;
+};
+
+const sessionStore: SessionStore =
+  globalForSessions.__agentSessionStore ?? {
+    sessions: new Map<string, AgentSession>(),
+    order: [],
+  };
+
+globalForSessions.__agentSessionStore = sessionStore;
+
+async function stopSessionSandbox(session: AgentSession, runtime: string) {
+  const entry = session.sandboxes.get(runtime);
+  session.sandboxes.delete(runtime);
+
+  if (!entry) {
+    return;
+  }
+
+  await getSandboxManager().release(entry.sandbox);
+}
+
+async function stopSessionSandboxes(session: AgentSession) {
+  await Promise.all(
+    [...session.sandboxes.keys()].map((runtime) =>
+      stopSessionSandbox(session, runtime),
+    ),
+  );
+}
+
+function removeSession(sessionId: string) {
+  const session = sessionStore.sessions.get(sessionId);
+  sessionStore.sessions.delete(sessionId);
+  sessionStore.order = sessionStore.order.filter((id) => id !== sessionId);
+
+  if (session) {
+    void stopSessionSandboxes(session);
+  }
+}
+
+function pruneSessions() {
+  const now = Date.now();
+
+  for (const id of [...sessionStore.order]) {
+    const session = sessionStore.sessions.get(id);
+    if (
+      session &&
+      !session.busy &&
+      now - session.lastActiveAt > SESSION_IDLE_TTL_MS
+    ) {
+      removeSession(id);
+    }
+  }
+
+  // Oldest first; a session with a turn in progress keeps its sandboxes.
+  for (const id of [...sessionStore.order]) {
+    if (sessionStore.order.length <= MAX_SESSIONS) {
+      break;
+    }
+    if (!sessionStore.sessions.get(id)?.busy) {
+      removeSession(id);
+    }
+  }
+}
+
+export function createSession(ownerId: string) {
+  pruneSessions();
+
+  const now = Date.now();
+  const session: AgentSession = {
+    id: randomUUID(),
+    ownerId,
+    createdAt: now,
+    lastActiveAt: now,
+    messages: [],
+    traceIds: [],
+    sandboxes: new Map(),
+    busy: false,
+  };
+
+  sessionStore.sessions.set(session.id, session);
+  sessionStore.order.push(session.id);
+  pruneSessions();
+
+  return session;
+}
+
+export function getSession(sessionId: string) {
+  pruneSessions();
+  return sessionStore.sessions.get(sessionId) ?? null;
+}
+
+/** Stops the session's sandboxes; a session with a turn in progress is kept. */
+export async function deleteSession(sessionId: string) {
+  const session = sessionStore.sessions.get(sessionId);
+  if (!session || session.busy) {
+    return false;
+  }
+
+  sessionStore.sessions.delete(sessionId);
+  sessionStore.order = sessionStore.order.filter((id) => id !== sessionId);
+  await stopSessionSandboxes(session);
+  return true;
+}
+
+/**
+ * Returns the session's sandbox for a runtime, keeping it alive for at least
+ * one more command under the configured limits. Files under /vercel/sandbox
+ * survive as long as the same VM can be extended; if it already expired, a
+ * fresh sandbox replaces it.
+ */
+export async function acquireSessionSandbox(
+  session: AgentSession,
+  runtime = "node22",
+) {
+  const now = Date.now();
+  const entry = session.sandboxes.get(runtime);
+  const turnBudgetMs = commandBudgetMs(getExecutionLimits());
+
+  if (entry && entry.expiresAt - now > turnBudgetMs) {
+    return entry.sandbox;
+  }
+
+  if (entry && entry.expiresAt > now) {
+    try {
+      await entry.sandbox.extendTimeout(SESSION_IDLE_TTL_MS);
+      entry.expiresAt += SESSION_IDLE_TTL_MS;
+      return entry.sandbox;
+    } catch (error) {
+      console.error("Failed to extend session sandbox:", error);
+    }
+  }
+
+  await stopSessionSandbox(session, runtime);
+
+  const lease = await getSandboxManager().acquire(runtime);
+  const remaining = lease.expiresAt - Date.now();
+  if (remaining < SESSION_IDLE_TTL_MS) {
+    try {
+      await lease.sandbox.extendTimeout(SESSION_IDLE_TTL_MS - remaining);
+      lease.expiresAt += SESSION_IDLE_TTL_MS - remaining;
+    } catch (error) {
+      console.error("Failed to extend session sandbox:", error);
+    }
+  }
+  session.sandboxes.set(runtime, lease);
+
+  return lease.sandbox;
+}
+
+/**
+ * Session sandboxes outlive the turn, so a run never stops them. Like
+ * `managedSandboxFactory`, commands start with `commandBudgetMs` left.
+ */
+export function sessionSandboxFactory(
+  session: AgentSession,
+  commandBudgetMs: number,
+): SandboxFactory {
+  return {
+    acquire: async (runtime) => {
+      await acquireSessionSandbox(session, runtime);
+      return keepSandboxAlive(session.sandboxes.get(runtime)!, commandBudgetMs);
+    },
+    release: async () => {},
+    persistent: true,
+  };
+}
+
+export function serializeSession(session: AgentSession) {
+  return {
+    id: session.id,
+    createdAt: session.createdAt,
+    lastActiveAt: session.lastActiveAt,
+    sandboxIds: Object.fromEntries(
+      [...session.sandboxes].map(([runtime, entry]) => [
+        runtime,
+        entry.sandbox.sandboxId,
+      ]),
+    ),
+    traceIds: session.traceIds,
+    messages: session.messages,
+  };
+}
@@ -1,4 +1,18 @@
-type TraceEvent =
+import path from "path";
+import type { AgentUsage } from "@/lib/agent-events";
+import type { ArtifactInfo } from "@/lib/agent-artifacts";
+import type { SandboxRunResult } from "@/lib/sandbox-output";
+import type { ProjectFile } from "@/lib/sandbox-project";
+import { estimateCostUsd } from "@/lib/model-pricing";
+import {
+  createFileTraceStore,
+  createMemoryTraceStore,
+  type TraceRetention,
+  type TraceStore,
+} from "@/lib/trace-store";
+import { readPositiveInt } from "@/lib/env";
+
+export type TraceEvent =
   | {
       type: "tool-call";
       toolCallId: string;
@@ -24,110 +38,558 @@ type TraceEvent =
       type: "tool-output-denied";
       toolCallId: string;
       toolName: string;
+      reason?: string;
+      timestamp: number;
+    }
+  | {
+      /** The run was stopped by its client or a cancel request. */
+      type: "run-cancelled";
+      reason: string;
+      timestamp: number;
+    }
+  | {
+      /**
+       * A sandbox was acquired for the run. `session` marks a session sandbox,
+       * which may have been reused from an earlier turn.
+       */
+      type: "sandbox-created";
+      sandboxId: string;
+      runtime: string;
+      durationMs: number;
+      session?: true;
+      timestamp: number;
+    }
+  | {
+      type: "sandbox-stopped";
+      sandboxId: string;
+      runtime: string;
+      durationMs: number;
+      timestamp: number;
+    }
+  | { type: "step-start"; step: number; timestamp: number }
+  | {
+      type: "step-finish";
+      step: number;
+      finishReason: string;
+      timestamp: number;
+    }
+  | {
+      type: "install-result";
+      toolCallId: string;
+      packageManager: "npm" | "pip";
+      packages: string[];
+      cacheHit: boolean;
+      exitCode: number | null;
+      timedOut: boolean;
+      durationMs: number;
+      /** Install output, capped like `installLog` in sandbox runs. */
+      log: string;
       timestamp: number;
     };
 
+/**
+ * How a run ended. `step-limit-reached` means the model still wanted to call
+ * tools when the step limit stopped it.
+ */
+export type TraceRunStatus =
+  "succeeded" | "failed" | "cancelled" | "step-limit-reached";
+
+export type TraceStepUsage = AgentUsage & {
+  finishReason: string;
+  finishedAt: number;
+  /** Text the model wrote in this step. */
+  text?: string;
+};
+
+export type SandboxCommandTiming = {
+  command: string;
+  startedAt: number;
+  durationMs: number;
+  exitCode: number | null;
+};
+
+export type TraceSandboxRun = SandboxRunResult & {
+  toolCallId: string;
+  language: string;
+  /** Set for `runProject` calls: the files written and what was run. */
+  project?: { files: ProjectFile[]; entry?: string; script?: string };
+};
+
+export type TraceDependencyInstall = {
+  toolCallId: string;
+  packages: string[];
+  cacheKey: string;
+  cacheHit: boolean;
+  /** Every installed `name@version`, read from package-lock.json. */
+  resolved: string[];
+  lockfileSha256: string | null;
+};
+
+export type TraceApproval = {
+  toolCallId: string;
+  status: "pending" | "approved" | "rejected";
+  requestedAt: number;
+  decidedAt?: number;
+  reason?: string;
+};
+
 export type AgentTrace = {
   id: string;
+  /** Caller that started the run; only they can read the trace. */
+  ownerId?: string;
   prompt: string;
   model: string;
-  sandboxId: string;
+  sandboxId: string | null;
+  /** Names of the secrets injected into sandbox commands; never values. */
+  secretNames?: string[];
+  /** Sandbox code waited for a reviewer's approval before it ran. */
+  requireApproval?: true;
   startedAt: number;
   finishedAt?: number;
+  status?: TraceRunStatus;
+  /** The model's final answer: the last step that produced text. */
+  answer?: string;
   events: TraceEvent[];
+  steps?: TraceStepUsage[];
+  usage?: AgentUsage;
+  costUsd?: number | null;
+  sandboxCommands?: SandboxCommandTiming[];
+  sandboxRuns?: TraceSandboxRun[];
+  dependencyInstalls?: TraceDependencyInstall[];
+  failedModels?: { model: string; error: string }[];
+  uploads?: { name: string; size: number }[];
+  artifacts?: ArtifactInfo[];
+  approvals?: TraceApproval[];
+  /** Set once a tool input or output was cut to `MAX_SERIALIZED_LENGTH`. */
+  truncatedPayloads?: boolean;
+  replayOf?: { traceId: string; mode: "live" | "offline" };
 };
 
-type TraceStore = {
-  traces: Map<string, AgentTrace>;
-  order: string[];
-};
-
-const MAX_TRACES = 25;
+const DEFAULT_MAX_TRACES = 25;
 const MAX_SERIALIZED_LENGTH = 4000;
 
 const globalForTraces = globalThis as typeof globalThis & {
-  __agentTraceStore?: TraceStore;
+  __agentTraceBackend?: TraceStore;
 };
 
-const traceStore: TraceStore =
-  globalForTraces.__agentTraceStore ?? {
-    traces: new Map<string, AgentTrace>(),
-    order: [],
+/**
+ * Picks the trace backend from env: `AGENT_TRACE_STORE=file` keeps a JSONL log
+ * at `AGENT_TRACE_FILE` (default `.data/agent-traces.jsonl`), anything else
+ * stays in memory. `AGENT_TRACE_MAX_COUNT` and `AGENT_TRACE_MAX_AGE_HOURS`
+ * control retention.
+ */
+function createTraceStoreFromEnv(): TraceStore {
+  const maxAgeHours = readPositiveInt(process.env.AGENT_TRACE_MAX_AGE_HOURS);
+  const retention: TraceRetention = {
+    maxCount:
+      readPositiveInt(process.env.AGENT_TRACE_MAX_COUNT) ?? DEFAULT_MAX_TRACES,
+    maxAgeMs: maxAgeHours ? maxAgeHours * 60 * 60_000 : undefined,
   };
 
-globalForTraces.__agentTraceStore = traceStore;
+  if (process.env.AGENT_TRACE_STORE === "file") {
+    const filePath =
+      process.env.AGENT_TRACE_FILE ??
+      path.join(process.cwd(), ".data", "agent-traces.jsonl");
+    return createFileTraceStore(filePath, retention);
+  }
+
+  return createMemoryTraceStore(retention);
+}
+
+const traceStore: TraceStore =
+  globalForTraces.__agentTraceBackend ?? createTraceStoreFromEnv();
+
+globalForTraces.__agentTraceBackend = traceStore;
 
-function trimIfNeeded(value: unknown) {
-  try {
-    const serialized = JSON.stringify(value);
-    if (serialized.length <= MAX_SERIALIZED_LENGTH) {
+/**
+ * `AGENT_TRACE_FULL_PAYLOADS=true` keeps tool inputs, outputs and step text
+ * whole, which offline replay needs. Traces grow accordingly.
+ */
+function keepsFullPayloads() {
+  return process.env.AGENT_TRACE_FULL_PAYLOADS === "true";
+}
+
+/**
+ * Trace writers bound to one store. The app uses the env-configured store
+ * below; an agent runner can be handed a recorder over any other store.
+ */
+export function createTraceRecorder(store: TraceStore) {
+  function trimIfNeeded(traceId: string, value: unknown) {
+    if (keepsFullPayloads()) {
       return value;
     }
-    return `${serialized.slice(0, MAX_SERIALIZED_LENGTH)}... [truncated]`;
-  } catch {
-    return String(value);
+
+    try {
+      const serialized = JSON.stringify(value);
+      if (serialized.length <= MAX_SERIALIZED_LENGTH) {
+        return value;
+      }
+      store.update(traceId, { truncatedPayloads: true });
+      return `${serialized.slice(0, MAX_SERIALIZED_LENGTH)}... [truncated]`;
+    } catch {
+      return String(value);
+    }
   }
-}
 
-function enforceLimit() {
-  while (traceStore.order.length > MAX_TRACES) {
-    const oldest = traceStore.order.shift();
-    if (oldest) {
-      traceStore.traces.delete(oldest);
+  function startTrace(params: {
+    id: string;
+    ownerId: string;
+    prompt: string;
+    model: string;
+    sandboxId?: string;
+    secretNames?: string[];
+    requireApproval?: boolean;
+  }) {
+    const trace: AgentTrace = {
+      id: params.id,
+      ownerId: params.ownerId,
+      prompt: params.prompt,
+      model: params.model,
+      sandboxId: params.sandboxId ?? null,
+      ...(params.secretNames ? { secretNames: params.secretNames } : {}),
+      ...(params.requireApproval ? { requireApproval: true as const } : {}),
+      startedAt: Date.now(),
+      events: [],
+    };
+
+    store.create(trace);
+
+    return trace;
+  }
+
+  function appendTraceEvent(traceId: string, event: TraceEvent) {
+    if (event.type === "tool-call") {
+      store.appendEvent(traceId, {
+        ...event,
+        input: trimIfNeeded(traceId, event.input),
+      });
+      return;
+    }
+
+    if (event.type === "tool-result") {
+      store.appendEvent(traceId, {
+        ...event,
+        output: trimIfNeeded(traceId, event.output),
+      });
+      return;
+    }
+
+    store.appendEvent(traceId, event);
+  }
+
+  function recordStepUsage(traceId: string, step: TraceStepUsage) {
+    const text =
+      step.text &&
+      !keepsFullPayloads() &&
+      step.text.length > MAX_SERIALIZED_LENGTH
+        ? `${step.text.slice(0, MAX_SERIALIZED_LENGTH)}... [truncated]`
+        : step.text;
+    if (text !== step.text) {
+      store.update(traceId, { truncatedPayloads: true });
+    }
+
+    store.appendItem(traceId, "steps", { ...step, text });
+  }
+
+  function recordRunUsage(traceId: string, usage: AgentUsage) {
+    const trace = store.get(traceId);
+    if (!trace) {
+      return;
+    }
+
+    store.update(traceId, {
+      usage,
+      costUsd: estimateCostUsd(trace.model, usage),
+    });
+  }
+
+  function recordSandboxCommand(traceId: string, timing: SandboxCommandTiming) {
+    store.appendItem(traceId, "sandboxCommands", timing);
+  }
+
+  function recordSandboxRun(traceId: string, run: TraceSandboxRun) {
+    store.appendItem(traceId, "sandboxRuns", run);
+  }
+
+  function recordDependencyInstall(
+    traceId: string,
+    install: TraceDependencyInstall,
+  ) {
+    store.appendItem(traceId, "dependencyInstalls", install);
+  }
+
+  function recordModelFailure(
+    traceId: string,
+    failure: { model: string; error: string },
+  ) {
+    store.appendItem(traceId, "failedModels", failure);
+  }
+
+  function recordUploads(
+    traceId: string,
+    uploads: { name: string; size: number }[],
+  ) {
+    store.update(traceId, { uploads });
+  }
+
+  function recordArtifacts(traceId: string, artifacts: ArtifactInfo[]) {
+    store.update(traceId, { artifacts });
+  }
+
+  /** Adds an approval or replaces the entry with the same toolCallId. */
+  function recordApproval(traceId: string, approval: TraceApproval) {
+    store.appendItem(traceId, "approvals", approval);
+  }
+
+  /** Records the first sandbox a run used; sandboxes are created lazily. */
+  function recordSandbox(traceId: string, sandboxId: string) {
+    const trace = store.get(traceId);
+    if (!trace || trace.sandboxId) {
+      return;
     }
+
+    store.update(traceId, { sandboxId });
+  }
+
+  function setTraceModel(traceId: string, model: string) {
+    store.update(traceId, { model });
   }
+
+  function markReplay(
+    traceId: string,
+    replayOf: NonNullable<AgentTrace["replayOf"]>,
+  ) {
+    store.update(traceId, { replayOf });
+  }
+
+  function finishTrace(
+    traceId: string,
+    outcome?: { status: TraceRunStatus; answer?: string },
+  ) {
+    const answer =
+      outcome?.answer &&
+      !keepsFullPayloads() &&
+      outcome.answer.length > MAX_SERIALIZED_LENGTH
+        ? `${outcome.answer.slice(0, MAX_SERIALIZED_LENGTH)}... [truncated]`
+        : outcome?.answer;
+    if (answer !== outcome?.answer) {
+      store.update(traceId, { truncatedPayloads: true });
+    }
+
+    store.update(traceId, {
+      finishedAt: Date.now(),
+      ...(outcome ? { status: outcome.status } : {}),
+      ...(answer ? { answer } : {}),
+    });
+  }
+
+  return {
+    startTrace,
+    appendTraceEvent,
+    recordStepUsage,
+    recordRunUsage,
+    recordSandboxCommand,
+    recordSandboxRun,
+    recordDependencyInstall,
+    recordModelFailure,
+    recordUploads,
+    recordArtifacts,
+    recordApproval,
+    recordSandbox,
+    setTraceModel,
+    markReplay,
+    finishTrace,
+  };
+}
+
+export type TraceRecorder = ReturnType<typeof createTraceRecorder>;
+
+export const traceRecorder = createTraceRecorder(traceStore);
+
+export const {
+  startTrace,
+  appendTraceEvent,
+  recordStepUsage,
+  recordRunUsage,
+  recordSandboxCommand,
+  recordSandboxRun,
+  recordDependencyInstall,
+  recordModelFailure,
+  recordUploads,
+  recordArtifacts,
+  recordApproval,
+  recordSandbox,
+  setTraceModel,
+  markReplay,
+  finishTrace,
+} = traceRecorder;
+
+export function getTrace(traceId: string) {
+  return traceStore.get(traceId);
 }
 
-export function startTrace(params: {
+export type TraceSummary = {
   id: string;
   prompt: string;
   model: string;
-  sandboxId: string;
-}) {
-  const trace: AgentTrace = {
-    id: params.id,
-    prompt: params.prompt,
-    model: params.model,
-    sandboxId: params.sandboxId,
-    startedAt: Date.now(),
-    events: [],
+  sandboxId: string | null;
+  startedAt: number;
+  finishedAt?: number;
+  status: TraceRunStatus | null;
+  durationMs: number | null;
+  toolNames: string[];
+  eventCounts: Record<TraceEvent["type"], number>;
+  /** Finished with any status but `succeeded`; running traces have none. */
+  hasError: boolean;
+  usage: AgentUsage | null;
+  costUsd: number | null;
+  sandboxMs: number;
+  exitCodes: (number | null)[];
+};
+
+export type TraceFilter = {
+  ownerId?: string;
+  model?: string;
+  sandboxId?: string;
+  tool?: string;
+  exitCode?: number;
+  from?: number;
+  to?: number;
+  status?: "errored" | "succeeded";
+  q?: string;
+};
+
+export function summarizeTrace(trace: AgentTrace): TraceSummary {
+  const eventCounts: TraceSummary["eventCounts"] = {
+    "tool-call": 0,
+    "tool-result": 0,
+    "tool-error": 0,
+    "tool-output-denied": 0,
+    "run-cancelled": 0,
+    "sandbox-created": 0,
+    "sandbox-stopped": 0,
+    "step-start": 0,
+    "step-finish": 0,
+    "install-result": 0,
   };
+  const toolNames = new Set<string>();
 
-  traceStore.traces.set(params.id, trace);
-  traceStore.order.push(params.id);
-  enforceLimit();
+  for (const event of trace.events) {
+    eventCounts[event.type] += 1;
+    if ("toolName" in event && event.toolName) {
+      toolNames.add(event.toolName);
+    }
+  }
 
-  return trace;
+  return {
+    id: trace.id,
+    prompt: trace.prompt,
+    model: trace.model,
+    sandboxId: trace.sandboxId,
+    startedAt: trace.startedAt,
+    finishedAt: trace.finishedAt,
+    status: trace.status ?? null,
+    durationMs:
+      trace.finishedAt !== undefined
+        ? trace.finishedAt - trace.startedAt
+        : null,
+    toolNames: [...toolNames],
+    eventCounts,
+    // Traces logged before runs recorded a status fall back to tool errors.
+    hasError: trace.status
+      ? trace.status !== "succeeded"
+      : trace.finishedAt !== undefined && eventCounts["tool-error"] > 0,
+    usage: trace.usage ?? null,
+    costUsd: trace.costUsd ?? null,
+    sandboxMs: (trace.sandboxCommands ?? []).reduce(
+      (total, command) => total + command.durationMs,
+      0,
+    ),
+    exitCodes: (trace.sandboxRuns ?? []).map((run) => run.exitCode),
+  };
 }
 
-export function appendTraceEvent(traceId: string, event: TraceEvent) {
-  const trace = traceStore.traces.get(traceId);
-  if (!trace) {
-    return;
+function matchesText(trace: AgentTrace, query: string) {
+  const needle = query.toLowerCase();
+  return [
+    trace.prompt,
+    ...(trace.sandboxRuns ?? []).flatMap((run) => [run.stdout, run.stderr]),
+  ].some((text) => text.toLowerCase().includes(needle));
+}
+
+function matchesFilter(
+  trace: AgentTrace,
+  summary: TraceSummary,
+  filter: TraceFilter,
+) {
+  if (filter.model && summary.model !== filter.model) {
+    return false;
   }
 
-  if (event.type === "tool-call") {
-    trace.events.push({ ...event, input: trimIfNeeded(event.input) });
-    return;
+  if (filter.sandboxId && summary.sandboxId !== filter.sandboxId) {
+    return false;
   }
 
-  if (event.type === "tool-result") {
-    trace.events.push({ ...event, output: trimIfNeeded(event.output) });
-    return;
+  if (filter.tool && !summary.toolNames.includes(filter.tool)) {
+    return false;
   }
 
-  trace.events.push(event);
-}
+  if (
+    filter.exitCode !== undefined &&
+    !summary.exitCodes.includes(filter.exitCode)
+  ) {
+    return false;
+  }
+
+  if (filter.from !== undefined && summary.startedAt < filter.from) {
+    return false;
+  }
+
+  if (filter.to !== undefined && summary.startedAt > filter.to) {
+    return false;
+  }
+
+  if (filter.status === "errored" && !summary.hasError) {
+    return false;
+  }
 
-export function finishTrace(traceId: string) {
-  const trace = traceStore.traces.get(traceId);
-  if (!trace) {
-    return;
+  if (
+    filter.status === "succeeded" &&
+    (summary.finishedAt === undefined || summary.hasError)
+  ) {
+    return false;
   }
 
-  trace.finishedAt = Date.now();
+  if (filter.q && !matchesText(trace, filter.q)) {
+    return false;
+  }
+
+  return true;
 }
 
-export function getTrace(traceId: string) {
-  return traceStore.traces.get(traceId) ?? null;
+export function findTraces(filter: TraceFilter) {
+  return traceStore
+    .list()
+    .filter(
+      (trace) =>
+        filter.ownerId === undefined || trace.ownerId === filter.ownerId,
+    )
+    .map((trace) => ({ trace, summary: summarizeTrace(trace) }))
+    .filter(({ trace, summary }) => matchesFilter(trace, summary, filter))
+    .map(({ summary }) => summary);
+}
+
+export function listTraces(
+  filter: TraceFilter,
+  page: { offset: number; limit: number },
+) {
+  const matches = findTraces(filter);
+
+  const nextOffset = page.offset + page.limit;
+
+  return {
+    traces: matches.slice(page.offset, nextOffset),
+    total: matches.length,
+    nextOffset: nextOffset < matches.length ? nextOffset : null,
+  };
 }
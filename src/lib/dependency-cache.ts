@@ -0,0 +1,189 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { SandboxInstance } from "@/lib/sandbox-manager";
+
+export type CachedDependencies = {
+  /** gzip tarball of node_modules, package.json and package-lock.json. */
+  archive: Buffer;
+  lockfile: string;
+};
+
+type DependencyCacheStore = {
+  entries: Map<string, CachedDependencies>;
+  order: string[];
+};
+
+/** Written next to the code and removed once packed or unpacked. */
+export const DEPENDENCY_ARCHIVE = ".agent-deps.tgz";
+/**
+ * Cache misses install into a fresh, randomly named directory under this one
+ * (relative to the sandbox cwd), which is removed once the install is packed.
+ */
+export const DEPENDENCY_BUILD_ROOT = ".agent-deps";
+export const DEPENDENCY_FILES = [
+  "node_modules",
+  "package.json",
+  "package-lock.json",
+];
+
+const MAX_CACHE_ENTRIES = 20;
+const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+const globalForDependencies = globalThis as typeof globalThis & {
+  __agentDependencyCache?: DependencyCacheStore;
+};
+
+const dependencyCache: DependencyCacheStore =
+  globalForDependencies.__agentDependencyCache ?? {
+    entries: new Map<string, CachedDependencies>(),
+    order: [],
+  };
+
+globalForDependencies.__agentDependencyCache = dependencyCache;
+
+/** Strips the version from `name@version` and `@scope/name@version`. */
+export function npmPackageName(spec: string) {
+  const match = spec.match(/^(@[^/@]+\/[^@]+|[^@]+)/);
+  return match ? match[1] : spec;
+}
+
+/**
+ * Replaces the requested version of every pinned package with its pin, so the
+ * same deployment always installs the same versions.
+ */
+export function applyNpmPins(
+  packages: string[],
+  pins: Record<string, string> = {},
+) {
+  return packages.map((spec) => {
+    const name = npmPackageName(spec);
+    return pins[name] ? `${name}@${pins[name]}` : spec;
+  });
+}
+
+export function dependencyCacheKey(runtime: string, packages: string[]) {
+  const normalized = [...new Set(packages)].sort().join("\n");
+  return createHash("sha256").update(`${runtime}\n${normalized}`).digest("hex");
+}
+
+/** Exact `name@version` for every package in an npm v2/v3 lockfile. */
+export function resolvedVersions(lockfile: string) {
+  try {
+    const parsed = JSON.parse(lockfile) as {
+      packages?: Record<string, { version?: string }>;
+    };
+    return Object.entries(parsed.packages ?? {})
+      .filter(([location, entry]) => location && entry.version)
+      .map(
+        ([location, entry]) =>
+          `${location.split("node_modules/").pop()}@${entry.version}`,
+      )
+      .filter((value, index, all) => all.indexOf(value) === index)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+export function lockfileHash(lockfile: string) {
+  return createHash("sha256").update(lockfile).digest("hex");
+}
+
+/**
+ * Optional on-disk copy in `AGENT_DEPENDENCY_CACHE_DIR`, so warm entries
+ * survive restarts. The in-memory cache is always consulted first.
+ */
+function cacheDir() {
+  const dir = process.env.AGENT_DEPENDENCY_CACHE_DIR?.trim();
+  return dir ? path.resolve(dir) : null;
+}
+
+function remember(key: string, entry: CachedDependencies) {
+  dependencyCache.entries.set(key, entry);
+  dependencyCache.order = [
+    ...dependencyCache.order.filter((existing) => existing !== key),
+    key,
+  ];
+
+  const cachedBytes = () =>
+    [...dependencyCache.entries.values()].reduce(
+      (total, cached) => total + cached.archive.length,
+      0,
+    );
+  while (
+    dependencyCache.order.length > MAX_CACHE_ENTRIES ||
+    cachedBytes() > MAX_CACHE_BYTES
+  ) {
+    const oldest = dependencyCache.order.shift();
+    if (oldest) {
+      dependencyCache.entries.delete(oldest);
+    }
+  }
+}
+
+export async function getCachedDependencies(key: string) {
+  const cached = dependencyCache.entries.get(key);
+  if (cached) {
+    remember(key, cached);
+    return cached;
+  }
+
+  const dir = cacheDir();
+  if (!dir) {
+    return null;
+  }
+
+  try {
+    const entry = {
+      archive: await readFile(path.join(dir, `${key}.tgz`)),
+      lockfile: await readFile(path.join(dir, `${key}.lock.json`), "utf8"),
+    };
+    remember(key, entry);
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveCachedDependencies(
+  key: string,
+  entry: CachedDependencies,
+) {
+  if (entry.archive.length > MAX_ARCHIVE_BYTES) {
+    return;
+  }
+
+  remember(key, entry);
+
+  const dir = cacheDir();
+  if (!dir) {
+    return;
+  }
+
+  try {
+    await mkdir(dir, { recursive: true });
+    await writeFile(path.join(dir, `${key}.tgz`), entry.archive);
+    await writeFile(path.join(dir, `${key}.lock.json`), entry.lockfile);
+  } catch (error) {
+    console.error("Failed to persist dependency cache entry:", error);
+  }
+}
+
+async function readStream(stream: NodeJS.ReadableStream) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function readSandboxFile(
+  sandbox: SandboxInstance,
+  file: string,
+  cwd: string,
+) {
+  const stream = await sandbox.readFile({ path: file, cwd });
+  return stream ? readStream(stream) : null;
+}
@@ -0,0 +1,19 @@
+/** A whole number above 0 from an env var, or `fallback` when unset or invalid. */
+export function readPositiveInt(value: string | undefined): number | undefined;
+export function readPositiveInt(
+  value: string | undefined,
+  fallback: number,
+): number;
+export function readPositiveInt(value: string | undefined, fallback?: number) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** Like `readPositiveInt`, but 0 is accepted too. */
+export function readNonNegativeInt(
+  value: string | undefined,
+  fallback: number,
+) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
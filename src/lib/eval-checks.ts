@@ -0,0 +1,113 @@
+import type { EvalCheck } from "@/lib/eval-suite";
+
+export type EvalCheckResult = {
+  check: EvalCheck;
+  passed: boolean;
+  detail: string;
+};
+
+// Tries the whole answer, then a fenced block, then the outermost braces.
+function findJson(answer: string) {
+  const fenced = answer.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1];
+  const objectStart = answer.search(/[[{]/);
+  const objectEnd = Math.max(answer.lastIndexOf("}"), answer.lastIndexOf("]"));
+  const candidates = [
+    answer.trim(),
+    fenced,
+    objectStart >= 0 && objectEnd > objectStart
+      ? answer.slice(objectStart, objectEnd + 1)
+      : undefined,
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue;
+    }
+    try {
+      return { found: true as const, value: JSON.parse(candidate) as unknown };
+    } catch {
+      // Try the next candidate.
+    }
+  }
+
+  return { found: false as const };
+}
+
+/** Supports `$`, `.key`, `["key"]` and `[index]` segments. */
+function readJsonPath(value: unknown, jsonPath: string) {
+  const segments = [
+    ...jsonPath.slice(1).matchAll(/\.([^.[\]]+)|\[(\d+)\]|\["([^"]*)"\]/g),
+  ].map((match) => match[1] ?? (match[2] ? Number(match[2]) : match[3]));
+
+  let current = value;
+  for (const segment of segments) {
+    if (current === null || typeof current !== "object") {
+      return { found: false as const };
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+    if (current === undefined) {
+      return { found: false as const };
+    }
+  }
+
+  return { found: true as const, value: current };
+}
+
+function numbersIn(answer: string) {
+  return (answer.replace(/(\d),(\d{3})/g, "$1$2").match(/-?\d+(\.\d+)?/g) ?? [])
+    .map(Number)
+    .filter((value) => Number.isFinite(value));
+}
+
+function runCheck(check: EvalCheck, answer: string) {
+  switch (check.type) {
+    case "exact": {
+      const normalize = (text: string) =>
+        check.ignoreCase ? text.trim().toLowerCase() : text.trim();
+      return normalize(answer) === normalize(check.value)
+        ? { passed: true, detail: "Answer matches exactly." }
+        : { passed: false, detail: `Expected exactly "${check.value}".` };
+    }
+    case "regex": {
+      const pattern = new RegExp(check.pattern, check.flags);
+      return pattern.test(answer)
+        ? { passed: true, detail: `Matches /${check.pattern}/.` }
+        : { passed: false, detail: `Does not match /${check.pattern}/.` };
+    }
+    case "numeric": {
+      const tolerance = check.tolerance ?? 0;
+      const match = numbersIn(answer).find(
+        (value) => Math.abs(value - check.value) <= tolerance,
+      );
+      return match !== undefined
+        ? { passed: true, detail: `Found ${match}.` }
+        : {
+            passed: false,
+            detail: `No number within ${tolerance} of ${check.value}.`,
+          };
+    }
+    case "json-path": {
+      const json = findJson(answer);
+      if (!json.found) {
+        return { passed: false, detail: "Answer contains no JSON." };
+      }
+      const value = readJsonPath(json.value, check.path);
+      if (!value.found) {
+        return { passed: false, detail: `${check.path} is missing.` };
+      }
+      return JSON.stringify(value.value) === JSON.stringify(check.equals)
+        ? { passed: true, detail: `${check.path} matches.` }
+        : {
+            passed: false,
+            detail: `${check.path} is ${JSON.stringify(value.value)}.`,
+          };
+    }
+  }
+}
+
+export function checkAnswer(checks: EvalCheck[], answer: string) {
+  return checks.map((check): EvalCheckResult => ({
+    check,
+    ...runCheck(check, answer),
+  }));
+}
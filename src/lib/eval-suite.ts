@@ -0,0 +1,218 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+
+function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const evalCheckSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("exact"),
+    value: z.string(),
+    ignoreCase: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal("regex"),
+    pattern: z
+      .string()
+      .min(1)
+      .refine(isValidPattern, "Invalid regular expression."),
+    flags: z
+      .string()
+      .regex(/^[imsu]*$/)
+      .optional(),
+  }),
+  z.object({
+    type: z.literal("numeric"),
+    value: z.number(),
+    tolerance: z.number().nonnegative().optional(),
+  }),
+  z.object({
+    type: z.literal("json-path"),
+    /** `$.items[0].name` style path into the JSON found in the answer. */
+    path: z.string().regex(/^\$/),
+    equals: z.unknown(),
+  }),
+]);
+
+const mockToolCallSchema = z.object({
+  toolName: z.enum(["fetchJson", "runInSandbox", "runProject"]),
+  input: z.record(z.string(), z.unknown()),
+  /** fetchJson only: sandbox calls run their input offline as well. */
+  output: z.unknown().optional(),
+  /** fetchJson only: returned as a tool error instead of an output. */
+  error: z.string().optional(),
+});
+
+const evalCaseSchema = z.object({
+  id: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/),
+  prompt: z.string().trim().min(1).max(2000),
+  model: z.string().trim().min(1).optional(),
+  checks: z.array(evalCheckSchema).min(1),
+  /**
+   * Scripted model steps for offline runs: fetchJson calls return the given
+   * outputs in place of the network, and sandbox calls run their code.
+   */
+  mock: z
+    .object({
+      steps: z
+        .array(
+          z.object({
+            text: z.string().optional(),
+            toolCalls: z.array(mockToolCallSchema).optional(),
+          }),
+        )
+        .min(1),
+    })
+    .optional(),
+});
+
+export const evalSuiteSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  cases: z.array(evalCaseSchema).min(1).max(50),
+});
+
+export type EvalCheck = z.infer<typeof evalCheckSchema>;
+export type EvalCase = z.infer<typeof evalCaseSchema>;
+export type EvalSuite = z.infer<typeof evalSuiteSchema>;
+
+/** The home page's sample prompts with the answers we expect from them. */
+export const DEFAULT_EVAL_SUITE: EvalSuite = {
+  name: "sample-prompts",
+  cases: [
+    {
+      id: "hacker-news-top-story",
+      prompt: "Get the top Hacker News story title and URL.",
+      checks: [{ type: "regex", pattern: "https?://\\S+" }],
+      mock: {
+        steps: [
+          {
+            toolCalls: [
+              {
+                toolName: "fetchJson",
+                input: {
+                  url: "https://hacker-news.firebaseio.com/v0/topstories.json",
+                },
+                output: [41000001, 41000002],
+              },
+            ],
+          },
+          {
+            toolCalls: [
+              {
+                toolName: "fetchJson",
+                input: {
+                  url: "https://hacker-news.firebaseio.com/v0/item/41000001.json",
+                },
+                output: {
+                  id: 41000001,
+                  title: "Show HN: A tiny sandboxed agent",
+                  url: "https://example.com/tiny-agent",
+                },
+              },
+            ],
+          },
+          {
+            text: 'The top story is "Show HN: A tiny sandboxed agent" (https://example.com/tiny-agent).',
+          },
+        ],
+      },
+    },
+    {
+      id: "math-check",
+      prompt: "What is 44 x 44? Show the result.",
+      checks: [{ type: "numeric", value: 1936 }],
+      mock: {
+        steps: [
+          {
+            toolCalls: [
+              {
+                toolName: "runInSandbox",
+                input: {
+                  code: "console.log(44 * 44);",
+                  language: "javascript",
+                },
+              },
+            ],
+          },
+          { text: "44 x 44 = 1936." },
+        ],
+      },
+    },
+    {
+      id: "weather-snapshot",
+      prompt:
+        "Fetch the current weather for Tokyo using a public API and summarize it in one sentence.",
+      checks: [
+        { type: "regex", pattern: "tokyo", flags: "i" },
+        { type: "regex", pattern: "-?\\d+(\\.\\d+)?\\s*°?\\s*[CF]\\b" },
+      ],
+      mock: {
+        steps: [
+          {
+            toolCalls: [
+              {
+                toolName: "fetchJson",
+                input: {
+                  url: "https://api.open-meteo.com/v1/forecast?latitude=35.68&longitude=139.69&current=temperature_2m,weather_code",
+                },
+                output: { current: { temperature_2m: 18.4, weather_code: 2 } },
+              },
+            ],
+          },
+          { text: "Tokyo is partly cloudy at 18.4 °C right now." },
+        ],
+      },
+    },
+    {
+      id: "csv-quick-parse",
+      prompt:
+        "Given this CSV: name,score\\nAva,91\\nMilo,86\\nZoe,99\\nReturn the highest scorer.",
+      checks: [
+        { type: "regex", pattern: "\\bZoe\\b" },
+        { type: "numeric", value: 99 },
+      ],
+      mock: {
+        steps: [
+          {
+            toolCalls: [
+              {
+                toolName: "runInSandbox",
+                input: {
+                  code: "import csv, io\nrows = list(csv.DictReader(io.StringIO('name,score\\nAva,91\\nMilo,86\\nZoe,99')))\nbest = max(rows, key=lambda r: int(r['score']))\nprint(best['name'], best['score'])",
+                  language: "python",
+                },
+              },
+            ],
+          },
+          { text: "Zoe is the highest scorer with 99." },
+        ],
+      },
+    },
+  ],
+};
+
+/**
+ * Reads the suite named by `AGENT_EVAL_SUITE_FILE`, or returns the built-in
+ * sample suite when none is set.
+ */
+export async function loadEvalSuite(): Promise<EvalSuite> {
+  const file = process.env.AGENT_EVAL_SUITE_FILE?.trim();
+  if (!file) {
+    return DEFAULT_EVAL_SUITE;
+  }
+
+  const raw = await readFile(path.resolve(file), "utf8");
+  const parsed = evalSuiteSchema.safeParse(JSON.parse(raw));
+  if (!parsed.success) {
+    throw new Error(`Invalid eval suite in ${file}: ${parsed.error.message}`);
+  }
+
+  return parsed.data;
+}
@@ -0,0 +1,123 @@
+import { spawn, type ChildProcess } from "child_process";
+import { randomUUID } from "crypto";
+import { createReadStream } from "fs";
+import { access, mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { SandboxInstance, SandboxProvider } from "@/lib/sandbox-manager";
+
+// Paths the agent uses inside a Vercel sandbox are mapped onto a temp dir.
+const SANDBOX_ROOT = "/vercel/sandbox";
+
+/**
+ * A stand-in for a Vercel sandbox that runs commands as child processes in a
+ * temporary directory. It is not isolated in any way: code runs as the
+ * server's user with the server's network access, so only use it for local
+ * development and automated checks.
+ */
+export async function createLocalSandbox(): Promise<SandboxInstance> {
+  const root = await mkdtemp(path.join(tmpdir(), "agent-sandbox-"));
+  const running = new Set<ChildProcess>();
+  let stopped = false;
+
+  // Each command gets its own process group so whatever it spawns goes too.
+  const killGroup = (child: ChildProcess, signal: NodeJS.Signals) => {
+    try {
+      process.kill(-child.pid!, signal);
+    } catch {
+      // Already exited.
+    }
+  };
+
+  const resolvePath = (file: string, cwd = SANDBOX_ROOT) => {
+    const relative = path.posix.relative(
+      SANDBOX_ROOT,
+      path.posix.resolve(cwd, file),
+    );
+    if (relative.startsWith("..")) {
+      throw new Error(`${file} is outside the sandbox.`);
+    }
+    return path.join(root, relative);
+  };
+
+  return {
+    sandboxId: `local-${randomUUID()}`,
+    async runCommand({ cmd, args = [], cwd, env, signal }) {
+      if (stopped) {
+        throw new Error("Sandbox is stopped.");
+      }
+
+      const child = spawn(cmd, args, {
+        cwd: resolvePath(".", cwd),
+        // Only PATH is inherited so server secrets stay out of the child.
+        env: {
+          NODE_ENV: "production",
+          PATH: process.env.PATH ?? "",
+          HOME: root,
+          ...env,
+        },
+        detached: true,
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+      running.add(child);
+
+      const abort = () => killGroup(child, "SIGTERM");
+      signal?.addEventListener("abort", abort, { once: true });
+      if (signal?.aborted) {
+        abort();
+      }
+
+      let stdout = "";
+      let stderr = "";
+      child.stdout?.on("data", (chunk: Buffer) => {
+        stdout += chunk.toString("utf8");
+      });
+      child.stderr?.on("data", (chunk: Buffer) => {
+        stderr += chunk.toString("utf8");
+      });
+
+      const exitCode = await new Promise<number>((resolve, reject) => {
+        child.on("error", reject);
+        // Killed processes report no code; 137 matches what SIGKILL gives.
+        child.on("close", (code) => resolve(code ?? 137));
+      }).finally(() => {
+        running.delete(child);
+        signal?.removeEventListener("abort", abort);
+      });
+
+      return {
+        exitCode,
+        stdout: async () => stdout,
+        stderr: async () => stderr,
+      };
+    },
+    async writeFiles(files) {
+      for (const file of files) {
+        const target = resolvePath(file.path);
+        await mkdir(path.dirname(target), { recursive: true });
+        await writeFile(target, file.content);
+      }
+    },
+    async readFile({ path: file, cwd }) {
+      const target = resolvePath(file, cwd);
+      try {
+        await access(target);
+      } catch {
+        return null;
+      }
+      return createReadStream(target);
+    },
+    async extendTimeout() {},
+    async stop() {
+      stopped = true;
+      for (const child of running) {
+        killGroup(child, "SIGKILL");
+      }
+      await rm(root, { recursive: true, force: true });
+    },
+  };
+}
+
+export const localSandboxProvider: SandboxProvider = {
+  create: () => createLocalSandbox(),
+};
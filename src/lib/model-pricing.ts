@@ -0,0 +1,69 @@
+import { z } from "zod";
+import type { AgentUsage } from "@/lib/agent-events";
+
+const modelPricesSchema = z.record(
+  z.string().min(1),
+  z.object({
+    input: z.number().nonnegative(),
+    output: z.number().nonnegative(),
+  }),
+);
+
+/** USD per one million tokens. */
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "openai/gpt-5-nano": { input: 0.05, output: 0.4 },
+  "openai/gpt-5-mini": { input: 0.25, output: 2 },
+  "openai/gpt-5": { input: 1.25, output: 10 },
+};
+
+let cachedPrices: Record<string, ModelPrice> | null = null;
+
+/**
+ * Overrides from `AGENT_MODEL_PRICES`. A malformed value is ignored as a
+ * whole, so costs fall back to the built-in prices instead of becoming NaN.
+ */
+function readPriceOverrides(): Record<string, ModelPrice> {
+  if (!process.env.AGENT_MODEL_PRICES) {
+    return {};
+  }
+
+  try {
+    const parsed = modelPricesSchema.safeParse(
+      JSON.parse(process.env.AGENT_MODEL_PRICES),
+    );
+    if (parsed.success) {
+      return parsed.data;
+    }
+    console.error("Ignoring invalid AGENT_MODEL_PRICES:", parsed.error.message);
+  } catch (error) {
+    console.error("Ignoring invalid AGENT_MODEL_PRICES:", error);
+  }
+  return {};
+}
+
+/**
+ * Built-in prices merged with `AGENT_MODEL_PRICES`, a JSON object such as
+ * `{"openai/gpt-5-nano":{"input":0.05,"output":0.4}}`.
+ */
+export function getModelPrices() {
+  if (!cachedPrices) {
+    cachedPrices = { ...DEFAULT_MODEL_PRICES, ...readPriceOverrides() };
+  }
+  return cachedPrices;
+}
+
+export function estimateCostUsd(model: string, usage: AgentUsage) {
+  const price = getModelPrices()[model];
+  if (!price) {
+    return null;
+  }
+
+  const inputCost = ((usage.inputTokens ?? 0) / 1_000_000) * price.input;
+  const outputCost = ((usage.outputTokens ?? 0) / 1_000_000) * price.output;
+  return inputCost + outputCost;
+}
@@ -0,0 +1,145 @@
+import { NextResponse } from "next/server";
+import type { Caller } from "@/lib/agent-auth";
+import { readNonNegativeInt } from "@/lib/env";
+
+/**
+ * Backend for run limits. The in-memory default only counts requests that hit
+ * this process; a shared store (e.g. Redis) can be swapped in with
+ * `setRateLimitStore` when the app runs on several instances.
+ */
+export interface RateLimitStore {
+  /** Counts a hit in the current fixed window of `windowMs`. */
+  increment(
+    key: string,
+    windowMs: number,
+  ): Promise<{ count: number; resetAt: number }>;
+  /** Takes one of `limit` concurrent slots; false when all are in use. */
+  acquireSlot(key: string, limit: number): Promise<boolean>;
+  releaseSlot(key: string): Promise<void>;
+}
+
+export type RunLimit =
+  | { ok: true; release: () => Promise<void> }
+  | { ok: false; error: string; retryAfterSeconds: number };
+
+const RATE_WINDOW_MS = 60_000;
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 10;
+const DEFAULT_MAX_CONCURRENT_RUNS = 2;
+// Runs have no predictable end, so a full concurrency limit suggests a short wait.
+const CONCURRENCY_RETRY_AFTER_SECONDS = 5;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  const slots = new Map<string, number>();
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      for (const [windowKey, window] of windows) {
+        if (window.resetAt <= now) {
+          windows.delete(windowKey);
+        }
+      }
+
+      const window = windows.get(key) ?? { count: 0, resetAt: now + windowMs };
+      window.count += 1;
+      windows.set(key, window);
+      return { ...window };
+    },
+    async acquireSlot(key, limit) {
+      const used = slots.get(key) ?? 0;
+      if (used >= limit) {
+        return false;
+      }
+      slots.set(key, used + 1);
+      return true;
+    },
+    async releaseSlot(key) {
+      const used = (slots.get(key) ?? 1) - 1;
+      if (used > 0) {
+        slots.set(key, used);
+      } else {
+        slots.delete(key);
+      }
+    },
+  };
+}
+
+const globalForRateLimit = globalThis as typeof globalThis & {
+  __agentRateLimitStore?: RateLimitStore;
+};
+
+export function setRateLimitStore(store: RateLimitStore) {
+  globalForRateLimit.__agentRateLimitStore = store;
+}
+
+function getRateLimitStore() {
+  if (!globalForRateLimit.__agentRateLimitStore) {
+    globalForRateLimit.__agentRateLimitStore = createMemoryRateLimitStore();
+  }
+  return globalForRateLimit.__agentRateLimitStore;
+}
+
+/**
+ * Checks the caller's concurrency and per-minute limits before a run starts.
+ * Per-key values from `AGENT_API_KEYS` win over `AGENT_MAX_CONCURRENT_RUNS`
+ * and `AGENT_RATE_LIMIT_PER_MINUTE`; 0 means unlimited. On success the caller
+ * must call `release` once the run ends.
+ */
+export async function acquireRunLimit(caller: Caller): Promise<RunLimit> {
+  const store = getRateLimitStore();
+  const maxConcurrent =
+    caller.maxConcurrentRuns ??
+    readNonNegativeInt(
+      process.env.AGENT_MAX_CONCURRENT_RUNS,
+      DEFAULT_MAX_CONCURRENT_RUNS,
+    );
+  const perMinute =
+    caller.rateLimitPerMinute ??
+    readNonNegativeInt(
+      process.env.AGENT_RATE_LIMIT_PER_MINUTE,
+      DEFAULT_RATE_LIMIT_PER_MINUTE,
+    );
+
+  const slotKey = `runs:${caller.id}`;
+  if (maxConcurrent > 0 && !(await store.acquireSlot(slotKey, maxConcurrent))) {
+    return {
+      ok: false,
+      error: `Too many concurrent runs (max ${maxConcurrent}).`,
+      retryAfterSeconds: CONCURRENCY_RETRY_AFTER_SECONDS,
+    };
+  }
+
+  const release = async () => {
+    if (maxConcurrent > 0) {
+      await store.releaseSlot(slotKey);
+    }
+  };
+
+  if (perMinute > 0) {
+    const window = await store.increment(`rate:${caller.id}`, RATE_WINDOW_MS);
+    if (window.count > perMinute) {
+      await release();
+      return {
+        ok: false,
+        error: `Rate limit exceeded (${perMinute} runs per minute).`,
+        retryAfterSeconds: Math.max(
+          1,
+          Math.ceil((window.resetAt - Date.now()) / 1000),
+        ),
+      };
+    }
+  }
+
+  return { ok: true, release };
+}
+
+export function rateLimitedResponse(limit: Extract<RunLimit, { ok: false }>) {
+  return NextResponse.json(
+    { error: limit.error },
+    {
+      status: 429,
+      headers: { "Retry-After": String(limit.retryAfterSeconds) },
+    },
+  );
+}
@@ -0,0 +1,186 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { fetchJson, isBlockedAddress } from "@/lib/safe-fetch";
+
+const dns = vi.hoisted(() => ({
+  lookup:
+    vi.fn<
+      (hostname: string) => Promise<{ address: string; family: number }[]>
+    >(),
+}));
+
+vi.mock("dns/promises", () => ({ lookup: dns.lookup }));
+
+const BLOCKED = "Private or local addresses are not allowed.";
+
+// Stands in for public DNS: each name maps to one address.
+const HOSTS: Record<string, string> = {
+  "api.example.com": "93.184.216.34",
+  "metadata.example.com": "169.254.169.254",
+  "intranet.example.com": "10.0.0.5",
+};
+
+describe("isBlockedAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "169.254.169.254",
+    "192.168.0.1",
+    "::1",
+    "fe80::1",
+    "fd00::1",
+  ])("blocks %s", (address) => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each([
+    ["IPv4-mapped dotted", "::ffff:127.0.0.1"],
+    ["IPv4-mapped hex", "::ffff:7f00:1"],
+    ["IPv4-compatible", "::a9fe:a9fe"],
+    ["NAT64", "64:ff9b::a00:1"],
+    ["6to4", "2002:a00:1::"],
+  ])("blocks private IPv4 embedded in IPv6 (%s)", (_form, address) => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each(["93.184.216.34", "2606:4700:4700::1111", "::ffff:8.8.8.8"])(
+    "allows public %s",
+    (address) => {
+      expect(isBlockedAddress(address)).toBe(false);
+    },
+  );
+
+  it("treats anything that is not an IP literal as unsafe", () => {
+    expect(isBlockedAddress("2130706433")).toBe(true);
+    expect(isBlockedAddress("0x7f.0.0.1")).toBe(true);
+  });
+});
+
+describe("fetchJson", () => {
+  let server: http.Server;
+  let port: number;
+  let redirectTo: string;
+  let requests: string[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(`${req.headers.host}${req.url}`);
+      if (req.url === "/redirect") {
+        res.writeHead(302, { location: redirectTo }).end();
+        return;
+      }
+      res
+        .writeHead(200, { "content-type": "application/json" })
+        .end(JSON.stringify({ ok: true }));
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    vi.restoreAllMocks();
+    dns.lookup.mockReset();
+    dns.lookup.mockImplementation(async (hostname) => {
+      const address = HOSTS[hostname];
+      if (!address) {
+        throw new Error(`getaddrinfo ENOTFOUND ${hostname}`);
+      }
+      return [{ address, family: 4 }];
+    });
+
+    // Connections to the checked public address reach the local server, so
+    // the redirect loop runs against a real HTTP response.
+    const request = http.request;
+    vi.spyOn(http, "request").mockImplementation(((
+      url: URL,
+      options: http.RequestOptions,
+      callback: (res: http.IncomingMessage) => void,
+    ) =>
+      request(
+        url,
+        {
+          ...options,
+          lookup: (_hostname, lookupOptions, done) => {
+            if (lookupOptions.all) {
+              done(null, [{ address: "127.0.0.1", family: 4 }]);
+            } else {
+              done(null, "127.0.0.1", 4);
+            }
+          },
+        },
+        callback,
+      )) as typeof http.request);
+  });
+
+  it.each([
+    ["decimal", "http://2130706433/"],
+    ["hex", "http://0x7f000001/"],
+    ["dotted hex", "http://0x7f.0.0.1/"],
+    ["octal", "http://0177.0.0.1/"],
+    ["short", "http://127.1/"],
+  ])("rejects %s spellings of loopback", async (_form, url) => {
+    await expect(fetchJson(url)).rejects.toThrow(BLOCKED);
+    expect(requests).toEqual([]);
+  });
+
+  it.each([
+    "http://[::ffff:127.0.0.1]/",
+    "http://[::ffff:7f00:1]/",
+    "http://[64:ff9b::a00:1]/",
+    "http://[2002:a00:1::]/",
+  ])("rejects %s", async (url) => {
+    await expect(fetchJson(url)).rejects.toThrow(BLOCKED);
+    expect(requests).toEqual([]);
+  });
+
+  it("rejects a hostname that resolves to the metadata address", async () => {
+    await expect(
+      fetchJson("http://metadata.example.com/latest/meta-data"),
+    ).rejects.toThrow(BLOCKED);
+    expect(dns.lookup).toHaveBeenCalledWith("metadata.example.com", {
+      all: true,
+      verbatim: true,
+    });
+    expect(requests).toEqual([]);
+  });
+
+  it("follows a redirect to another public host", async () => {
+    redirectTo = `http://api.example.com:${port}/data.json`;
+    await expect(
+      fetchJson(`http://api.example.com:${port}/redirect`),
+    ).resolves.toMatchObject({
+      url: redirectTo,
+      status: 200,
+      data: { ok: true },
+    });
+    expect(requests).toHaveLength(2);
+  });
+
+  it.each([
+    ["a private hostname", "http://intranet.example.com/"],
+    ["a private literal", "http://169.254.169.254/latest/meta-data"],
+    ["loopback", "http://127.0.0.1/"],
+  ])("refuses a redirect to %s", async (_target, location) => {
+    redirectTo = location;
+    await expect(
+      fetchJson(`http://api.example.com:${port}/redirect`),
+    ).rejects.toThrow(BLOCKED);
+    expect(requests).toEqual([`api.example.com:${port}/redirect`]);
+  });
+});
@@ -0,0 +1,354 @@
+import { lookup } from "dns/promises";
+import http from "http";
+import https from "https";
+import net from "net";
+
+const MAX_REDIRECTS = 5;
+const MAX_RESPONSE_BYTES = 200_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const PRIVATE_HOSTNAME_SUFFIXES = [".local", ".internal", ".localhost"];
+
+const IPV4_DENY_LIST: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+const IPV6_DENY_LIST: [string, number][] = [
+  ["::", 128],
+  ["::1", 128],
+  ["100::", 64],
+  ["2001::", 32],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["fec0::", 10],
+  ["ff00::", 8],
+];
+
+const denyList = new net.BlockList();
+for (const [network, prefix] of IPV4_DENY_LIST) {
+  denyList.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of IPV6_DENY_LIST) {
+  denyList.addSubnet(network, prefix, "ipv6");
+}
+
+/** Expands an IPv6 address into its eight 16-bit groups. */
+function parseIPv6(address: string) {
+  let text = address.toLowerCase().split("%")[0];
+
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    if (!net.isIPv4(dotted[1])) {
+      return null;
+    }
+    const [a, b, c, d] = dotted[1].split(".").map(Number);
+    text = `${text.slice(0, -dotted[1].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (text.includes("::") ? missing < 1 : missing !== 0) {
+    return null;
+  }
+
+  const groups = [
+    ...headGroups,
+    ...Array<string>(text.includes("::") ? missing : 0).fill("0"),
+    ...tailGroups,
+  ].map((group) => parseInt(group, 16));
+
+  return groups.every((group) => group >= 0 && group <= 0xffff) ? groups : null;
+}
+
+function ipv4FromGroups(high: number, low: number) {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+/**
+ * IPv6 forms that carry an IPv4 address: IPv4-mapped (::ffff:0:0/96),
+ * IPv4-compatible (::/96), NAT64 (64:ff9b::/96) and 6to4 (2002::/16).
+ */
+function embeddedIPv4(groups: number[]) {
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups;
+  const upperZero = g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0;
+
+  if (upperZero && (g5 === 0xffff || g5 === 0)) {
+    return ipv4FromGroups(g6, g7);
+  }
+
+  if (
+    g0 === 0x64 &&
+    g1 === 0xff9b &&
+    g2 === 0 &&
+    g3 === 0 &&
+    g4 === 0 &&
+    g5 === 0
+  ) {
+    return ipv4FromGroups(g6, g7);
+  }
+
+  if (g0 === 0x2002) {
+    return ipv4FromGroups(g1, g2);
+  }
+
+  return null;
+}
+
+export function isBlockedAddress(address: string) {
+  const version = net.isIP(address);
+
+  if (version === 4) {
+    return denyList.check(address, "ipv4");
+  }
+
+  if (version === 6) {
+    const groups = parseIPv6(address);
+    if (!groups) {
+      return true;
+    }
+
+    const ipv4 = embeddedIPv4(groups);
+    if (ipv4 && denyList.check(ipv4, "ipv4")) {
+      return true;
+    }
+
+    return denyList.check(address.split("%")[0], "ipv6");
+  }
+
+  // Anything that is not a clean IP literal is treated as unsafe.
+  return true;
+}
+
+function isPrivateHostname(hostname: string) {
+  const lower = hostname.toLowerCase().replace(/\.$/, "");
+  return (
+    lower === "localhost" ||
+    PRIVATE_HOSTNAME_SUFFIXES.some((suffix) => lower.endsWith(suffix))
+  );
+}
+
+type ResolvedTarget = { address: string; family: 4 | 6 };
+
+/**
+ * Resolves the URL's host once and checks every address it maps to. The
+ * returned address is the one the request connects to, so a second DNS answer
+ * cannot swap in a private host after the check.
+ */
+async function resolvePublicTarget(url: URL): Promise<ResolvedTarget> {
+  if (!["http:", "https:"].includes(url.protocol)) {
+    throw new Error("Only http/https URLs are allowed.");
+  }
+
+  // WHATWG URL parsing already normalizes decimal, hex and octal IPv4
+  // spellings to dotted form and wraps IPv6 literals in brackets.
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+
+  if (isPrivateHostname(hostname)) {
+    throw new Error("Private or local addresses are not allowed.");
+  }
+
+  const literalVersion = net.isIP(hostname);
+  if (literalVersion) {
+    if (isBlockedAddress(hostname)) {
+      throw new Error("Private or local addresses are not allowed.");
+    }
+    return { address: hostname, family: literalVersion as 4 | 6 };
+  }
+
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Could not resolve ${hostname}.`);
+  }
+
+  if (addresses.length === 0) {
+    throw new Error(`Could not resolve ${hostname}.`);
+  }
+
+  if (addresses.some((entry) => isBlockedAddress(entry.address))) {
+    throw new Error("Private or local addresses are not allowed.");
+  }
+
+  const [first] = addresses;
+  return { address: first.address, family: first.family === 6 ? 6 : 4 };
+}
+
+type RawResponse = {
+  status: number;
+  location?: string;
+  body: string;
+};
+
+type PinnedRequest = {
+  method: "GET" | "POST";
+  headers: Record<string, string>;
+  body?: string;
+};
+
+const GET_JSON: PinnedRequest = {
+  method: "GET",
+  headers: {
+    accept: "application/json",
+    "accept-encoding": "identity",
+  },
+};
+
+function requestPinned(
+  url: URL,
+  target: ResolvedTarget,
+  signal: AbortSignal,
+  request: PinnedRequest = GET_JSON,
+): Promise<RawResponse> {
+  const client = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = client.request(
+      url,
+      {
+        method: request.method,
+        headers: request.headers,
+        signal,
+        lookup: (_hostname, options, callback) => {
+          if (options.all) {
+            callback(null, [target]);
+          } else {
+            callback(null, target.address, target.family);
+          }
+        },
+      },
+      (res) => {
+        const status = res.statusCode ?? 0;
+
+        if (status >= 300 && status < 400) {
+          res.resume();
+          resolve({ status, location: res.headers.location, body: "" });
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        res.on("data", (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_RESPONSE_BYTES) {
+            req.destroy(new Error("Response too large to parse safely."));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        res.on("end", () =>
+          resolve({ status, body: Buffer.concat(chunks).toString("utf8") }),
+        );
+        res.on("error", reject);
+      },
+    );
+
+    req.on("error", reject);
+    req.end(request.body);
+  });
+}
+
+export type FetchJsonOptions = {
+  /** Called with each hop's hostname before it is resolved; false blocks it. */
+  checkHost?: (hostname: string) => boolean;
+};
+
+/**
+ * Fetches JSON from a public endpoint. Every hop, including redirects, is
+ * resolved, checked against the private-range deny-list and connected to by
+ * the checked address.
+ */
+export async function fetchJson(url: string, options: FetchJsonOptions = {}) {
+  let current = new URL(url);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+      if (options.checkHost && !options.checkHost(current.hostname)) {
+        throw new Error(`${current.hostname} is blocked by the tool policy.`);
+      }
+
+      const target = await resolvePublicTarget(current);
+      const response = await requestPinned(current, target, controller.signal);
+
+      if (response.status >= 300 && response.status < 400) {
+        if (!response.location) {
+          throw new Error(`Redirect ${response.status} without a location.`);
+        }
+        current = new URL(response.location, current);
+        continue;
+      }
+
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`Request failed with status ${response.status}.`);
+      }
+
+      try {
+        const data = JSON.parse(response.body);
+        return {
+          url: current.toString(),
+          status: response.status,
+          data,
+        };
+      } catch {
+        throw new Error("Response was not valid JSON.");
+      }
+    }
+
+    throw new Error(`Too many redirects (max ${MAX_REDIRECTS}).`);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * POSTs a JSON body to a public endpoint with the same address checks as
+ * `fetchJson`. Redirects are not followed; the response status is returned.
+ */
+export async function postJson(
+  url: string,
+  payload: string,
+  headers: Record<string, string> = {},
+) {
+  const target = new URL(url);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await requestPinned(
+      target,
+      await resolvePublicTarget(target),
+      controller.signal,
+      {
+        method: "POST",
+        headers: {
+          ...headers,
+          "content-type": "application/json",
+          "content-length": String(Buffer.byteLength(payload)),
+        },
+        body: payload,
+      },
+    );
+    return { status: response.status };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
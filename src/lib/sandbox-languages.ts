@@ -0,0 +1,94 @@
+import type { MemoryLimitMode } from "@/lib/sandbox-limits";
+
+export type SandboxLanguage = "javascript" | "typescript" | "python";
+
+export const SANDBOX_LANGUAGES = [
+  "javascript",
+  "typescript",
+  "python",
+] as const satisfies readonly SandboxLanguage[];
+
+/**
+ * An npm or pip package spec such as `lodash@4` or `pandas==2.2.3`. It may not
+ * start with `-`, so it can never be read as an install flag.
+ */
+export const PACKAGE_SPEC_PATTERN = /^[a-zA-Z0-9@][a-zA-Z0-9@/._=-]*$/;
+
+export type SandboxCommandSpec = {
+  cmd: string;
+  args: string[];
+};
+
+export type LanguageSpec = {
+  runtime: "node22" | "python3.13";
+  /** File the code is written to before running, relative to the sandbox cwd. */
+  entryFile?: string;
+  packageManager: "npm" | "pip";
+  memoryLimit: MemoryLimitMode;
+  install: (packages: string[]) => SandboxCommandSpec[];
+  run: (code: string) => SandboxCommandSpec;
+  instructions: string;
+};
+
+const npmInstall = (packages: string[]): SandboxCommandSpec[] => [
+  { cmd: "npm", args: ["init", "-y"] },
+  {
+    cmd: "npm",
+    args: [
+      "install",
+      "--save-exact",
+      "--no-fund",
+      "--no-audit",
+      "--silent",
+      "--",
+      ...packages,
+    ],
+  },
+];
+
+export const LANGUAGE_SPECS: Record<SandboxLanguage, LanguageSpec> = {
+  javascript: {
+    runtime: "node22",
+    packageManager: "npm",
+    memoryLimit: "node-heap",
+    install: npmInstall,
+    run: (code) => ({ cmd: "node", args: ["-e", code] }),
+    instructions:
+      "javascript runs with Node.js 22 (CommonJS, top-level require, npm packages).",
+  },
+  typescript: {
+    runtime: "node22",
+    entryFile: "main.ts",
+    packageManager: "npm",
+    memoryLimit: "node-heap",
+    install: npmInstall,
+    run: () => ({
+      cmd: "node",
+      args: ["--experimental-strip-types", "--no-warnings", "main.ts"],
+    }),
+    instructions:
+      "typescript runs on Node.js 22 with type stripping: type annotations and interfaces work, but enums and namespaces do not.",
+  },
+  python: {
+    runtime: "python3.13",
+    packageManager: "pip",
+    memoryLimit: "address-space",
+    install: (packages) => [
+      {
+        cmd: "python3",
+        args: [
+          "-m",
+          "pip",
+          "install",
+          "--quiet",
+          "--no-input",
+          "--",
+          ...packages,
+        ],
+      },
+    ],
+    run: (code) => ({ cmd: "python3", args: ["-c", code] }),
+    instructions:
+      "python runs with Python 3.13 and can pip install packages such as pandas or numpy; print the final answer.",
+  },
+};
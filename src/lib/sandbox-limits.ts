@@ -0,0 +1,130 @@
+import type { SandboxCommandSpec } from "@/lib/sandbox-languages";
+import { readPositiveInt } from "@/lib/env";
+
+export type SandboxExecutionLimits = {
+  installTimeoutMs: number;
+  runTimeoutMs: number;
+  memoryMb: number;
+  maxOutputBytes: number;
+};
+
+export type LimitedCommand = SandboxCommandSpec & {
+  env: Record<string, string>;
+  timeoutMs: number;
+};
+
+/** How a language's memory cap is enforced. */
+export type MemoryLimitMode = "node-heap" | "address-space";
+
+// Grace period before the server gives up on a command whose in-sandbox
+// `timeout` should already have killed it.
+const ABORT_GRACE_MS = 5_000;
+
+/**
+ * Per-command limits for `runInSandbox`: `AGENT_SANDBOX_INSTALL_TIMEOUT_MS`
+ * (default 20s per install command), `AGENT_SANDBOX_RUN_TIMEOUT_MS` (default
+ * 10s), `AGENT_SANDBOX_MEMORY_MB` (default 512) and
+ * `AGENT_SANDBOX_MAX_OUTPUT_BYTES` (default 1 MB per stream).
+ */
+export function getExecutionLimits(): SandboxExecutionLimits {
+  return {
+    installTimeoutMs: readPositiveInt(
+      process.env.AGENT_SANDBOX_INSTALL_TIMEOUT_MS,
+      20_000,
+    ),
+    runTimeoutMs: readPositiveInt(
+      process.env.AGENT_SANDBOX_RUN_TIMEOUT_MS,
+      10_000,
+    ),
+    memoryMb: readPositiveInt(process.env.AGENT_SANDBOX_MEMORY_MB, 512),
+    maxOutputBytes: readPositiveInt(
+      process.env.AGENT_SANDBOX_MAX_OUTPUT_BYTES,
+      1_000_000,
+    ),
+  };
+}
+
+// Runs "$@" under coreutils `timeout`, caps each output stream with `head -c`
+// and optionally lowers the address-space limit. Values arrive through env so
+// nothing is interpolated into the script. A SIGTERM to the script (how a
+// cancelled run kills its command) is passed on through `timeout` to the code.
+const LIMIT_SCRIPT = [
+  'if [ -n "$LIMIT_ADDRESS_SPACE_KB" ]; then ulimit -v "$LIMIT_ADDRESS_SPACE_KB"; fi',
+  'timeout -k 2 "$LIMIT_SECONDS" "$@" > >(head -c "$LIMIT_OUTPUT_BYTES") 2> >(head -c "$LIMIT_OUTPUT_BYTES" >&2) &',
+  "child=$!",
+  'trap \'kill -TERM "$child" 2>/dev/null; wait "$child"; exit 143\' TERM',
+  'wait "$child"',
+  "status=$?",
+  "wait",
+  'exit "$status"',
+].join("\n");
+
+/**
+ * Wraps a command so the sandbox itself kills it after `timeoutMs` and stops
+ * collecting output past `maxOutputBytes`. Node gets its heap capped through
+ * `NODE_OPTIONS`; other runtimes get an address-space ulimit.
+ */
+export function withLimits(
+  spec: SandboxCommandSpec,
+  options: {
+    timeoutMs: number;
+    maxOutputBytes: number;
+    memoryMb?: number;
+    memoryMode?: MemoryLimitMode;
+  },
+): LimitedCommand {
+  const env: Record<string, string> = {
+    LIMIT_SECONDS: String(Math.max(1, Math.ceil(options.timeoutMs / 1000))),
+    LIMIT_OUTPUT_BYTES: String(options.maxOutputBytes),
+  };
+
+  if (options.memoryMb && options.memoryMode === "node-heap") {
+    env.NODE_OPTIONS = `--max-old-space-size=${options.memoryMb}`;
+  }
+
+  if (options.memoryMb && options.memoryMode === "address-space") {
+    env.LIMIT_ADDRESS_SPACE_KB = String(options.memoryMb * 1024);
+  }
+
+  return {
+    cmd: "bash",
+    args: ["-c", LIMIT_SCRIPT, "bash", spec.cmd, ...spec.args],
+    env,
+    timeoutMs: options.timeoutMs,
+  };
+}
+
+/**
+ * The longest one limited command can keep a sandbox busy, including the grace
+ * period before the server gives up on it.
+ */
+export function commandBudgetMs(limits: SandboxExecutionLimits) {
+  return (
+    Math.max(limits.installTimeoutMs, limits.runTimeoutMs) + ABORT_GRACE_MS
+  );
+}
+
+/** Backstop for the server side of a limited command. */
+export function abortSignalFor(command: LimitedCommand) {
+  return AbortSignal.timeout(command.timeoutMs + ABORT_GRACE_MS);
+}
+
+/**
+ * `timeout` exits 124 after SIGTERM and 137 when it had to SIGKILL. A command
+ * that exits with those codes on its own finishes early, so the elapsed time
+ * has to reach the limit too.
+ */
+export function isTimedOut(
+  exitCode: number | null,
+  durationMs: number,
+  timeoutMs: number,
+) {
+  return (
+    durationMs >= timeoutMs &&
+    (exitCode === null || exitCode === 124 || exitCode === 137)
+  );
+}
+
+export function timeoutMessage(timeoutMs: number) {
+  return `Timed out after ${Math.ceil(timeoutMs / 1000)}s and was stopped.`;
+}
@@ -0,0 +1,296 @@
+import { Sandbox } from "@vercel/sandbox";
+import { localSandboxProvider } from "@/lib/local-sandbox";
+import { readNonNegativeInt } from "@/lib/env";
+import { commandBudgetMs, getExecutionLimits } from "@/lib/sandbox-limits";
+
+export type SandboxCommandResult = {
+  exitCode: number;
+  stdout(): Promise<string>;
+  stderr(): Promise<string>;
+};
+
+/**
+ * The subset of `@vercel/sandbox` the agent relies on. Keeping it this small
+ * lets a local fake stand in for the real microVM. Aborting a command's
+ * `signal` sends it SIGTERM instead of just no longer waiting for it.
+ */
+export interface SandboxInstance {
+  readonly sandboxId: string;
+  runCommand(params: {
+    cmd: string;
+    args?: string[];
+    cwd?: string;
+    env?: Record<string, string>;
+    signal?: AbortSignal;
+  }): Promise<SandboxCommandResult>;
+  writeFiles(files: { path: string; content: Buffer }[]): Promise<void>;
+  readFile(file: {
+    path: string;
+    cwd?: string;
+  }): Promise<NodeJS.ReadableStream | null>;
+  extendTimeout(duration: number): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export interface SandboxProvider {
+  create(params: {
+    runtime: string;
+    timeout: number;
+  }): Promise<SandboxInstance>;
+}
+
+export type LeasedSandbox = {
+  sandbox: SandboxInstance;
+  expiresAt: number;
+};
+
+export interface SandboxManager {
+  /** Hands out a fresh sandbox, from the warm pool when one is ready. */
+  acquire(runtime: string): Promise<LeasedSandbox>;
+  /** Stops a sandbox. Sandboxes are never returned to the pool after use. */
+  release(sandbox: SandboxInstance): Promise<void>;
+  /** Starts filling the warm pool; safe to call on every request. */
+  warm(): void;
+}
+
+/**
+ * Where a single agent run gets its sandboxes. Each runtime is acquired at
+ * most once per run and every acquired sandbox is released when it ends.
+ */
+export interface SandboxFactory {
+  acquire(runtime: string): Promise<SandboxInstance>;
+  release(sandbox: SandboxInstance): Promise<void>;
+  /** Set when sandboxes outlive the run, so `release` does not stop them. */
+  readonly persistent?: boolean;
+}
+
+export type SandboxPoolOptions = {
+  /** Warm sandboxes kept per runtime. 0 disables pooling. */
+  size: number;
+  runtimes: string[];
+  /** Pooled sandboxes older than this are discarded instead of handed out. */
+  maxAgeMs: number;
+  /** Minimum lifetime a sandbox has left when it is handed out. */
+  runTimeoutMs: number;
+  healthCheckTimeoutMs: number;
+};
+
+type PooledSandbox = LeasedSandbox & { createdAt: number };
+
+// A Vercel command keeps running when its signal aborts; only the wait ends.
+// Commands are started detached so an abort can kill them.
+function killOnAbort(sandbox: Sandbox): SandboxInstance {
+  return {
+    sandboxId: sandbox.sandboxId,
+    async runCommand({ signal, ...params }) {
+      const command = await sandbox.runCommand({
+        ...params,
+        detached: true,
+        signal,
+      });
+      const kill = () => {
+        command.kill("SIGTERM").catch((error) => {
+          console.error("Failed to kill sandbox command:", error);
+        });
+      };
+      signal?.addEventListener("abort", kill, { once: true });
+      try {
+        return await command.wait({ signal });
+      } finally {
+        signal?.removeEventListener("abort", kill);
+      }
+    },
+    writeFiles: (files) => sandbox.writeFiles(files),
+    readFile: (file) => sandbox.readFile(file),
+    extendTimeout: (duration) => sandbox.extendTimeout(duration),
+    stop: () => sandbox.stop(),
+  };
+}
+
+export const vercelSandboxProvider: SandboxProvider = {
+  create: async ({ runtime, timeout }) =>
+    killOnAbort(await Sandbox.create({ runtime, timeout })),
+};
+
+async function stopQuietly(sandbox: SandboxInstance) {
+  try {
+    await sandbox.stop();
+  } catch (error) {
+    console.error("Failed to stop sandbox:", error);
+  }
+}
+
+async function isHealthy(sandbox: SandboxInstance, timeoutMs: number) {
+  try {
+    const result = await sandbox.runCommand({
+      cmd: "true",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    return result.exitCode === 0;
+  } catch {
+    return false;
+  }
+}
+
+export function createSandboxManager(
+  provider: SandboxProvider,
+  options: SandboxPoolOptions,
+): SandboxManager {
+  const pools = new Map<string, PooledSandbox[]>();
+  const pending = new Map<string, number>();
+
+  const poolFor = (runtime: string) => {
+    const pool = pools.get(runtime) ?? [];
+    pools.set(runtime, pool);
+    return pool;
+  };
+
+  const createLease = async (runtime: string, timeout: number) => {
+    const sandbox = await provider.create({ runtime, timeout });
+    return { sandbox, expiresAt: Date.now() + timeout };
+  };
+
+  const refill = (runtime: string) => {
+    if (options.size <= 0 || !options.runtimes.includes(runtime)) {
+      return;
+    }
+
+    const pool = poolFor(runtime);
+    const missing = options.size - pool.length - (pending.get(runtime) ?? 0);
+
+    for (let i = 0; i < missing; i += 1) {
+      pending.set(runtime, (pending.get(runtime) ?? 0) + 1);
+      createLease(runtime, options.maxAgeMs + options.runTimeoutMs)
+        .then((lease) => {
+          pool.push({ ...lease, createdAt: Date.now() });
+        })
+        .catch((error) => {
+          console.error(`Failed to pre-warm ${runtime} sandbox:`, error);
+        })
+        .finally(() => {
+          pending.set(runtime, (pending.get(runtime) ?? 1) - 1);
+        });
+    }
+  };
+
+  const takeWarm = async (runtime: string) => {
+    const pool = poolFor(runtime);
+
+    while (pool.length > 0) {
+      const entry = pool.shift()!;
+      const tooOld = Date.now() - entry.createdAt > options.maxAgeMs;
+      if (
+        !tooOld &&
+        (await isHealthy(entry.sandbox, options.healthCheckTimeoutMs))
+      ) {
+        return { sandbox: entry.sandbox, expiresAt: entry.expiresAt };
+      }
+
+      void stopQuietly(entry.sandbox);
+    }
+
+    return null;
+  };
+
+  return {
+    async acquire(runtime) {
+      const warmLease = await takeWarm(runtime);
+      refill(runtime);
+      return warmLease ?? createLease(runtime, options.runTimeoutMs);
+    },
+    async release(sandbox) {
+      await stopQuietly(sandbox);
+    },
+    warm() {
+      for (const runtime of options.runtimes) {
+        refill(runtime);
+      }
+    },
+  };
+}
+
+/**
+ * Wraps a leased sandbox so each command starts with at least `budgetMs` of
+ * lifetime left, extending the lease when needed. A slow install or run then
+ * ends with its own timeout instead of a sandbox that stopped under it.
+ */
+export function keepSandboxAlive(
+  lease: LeasedSandbox,
+  budgetMs: number,
+): SandboxInstance {
+  const { sandbox } = lease;
+
+  return {
+    sandboxId: sandbox.sandboxId,
+    async runCommand(params) {
+      const remaining = lease.expiresAt - Date.now();
+      if (remaining < budgetMs) {
+        try {
+          await sandbox.extendTimeout(budgetMs - remaining);
+          lease.expiresAt += budgetMs - remaining;
+        } catch (error) {
+          console.error("Failed to extend sandbox:", error);
+        }
+      }
+      return sandbox.runCommand(params);
+    },
+    writeFiles: (files) => sandbox.writeFiles(files),
+    readFile: (file) => sandbox.readFile(file),
+    async extendTimeout(duration) {
+      await sandbox.extendTimeout(duration);
+      lease.expiresAt += duration;
+    },
+    stop: () => sandbox.stop(),
+  };
+}
+
+/**
+ * Fresh sandboxes from a manager, stopped after the run. Every command starts
+ * with at least `commandBudgetMs` of sandbox lifetime left.
+ */
+export function managedSandboxFactory(
+  manager: SandboxManager,
+  commandBudgetMs: number,
+): SandboxFactory {
+  return {
+    acquire: async (runtime) =>
+      keepSandboxAlive(await manager.acquire(runtime), commandBudgetMs),
+    release: (sandbox) => manager.release(sandbox),
+  };
+}
+
+const globalForSandboxes = globalThis as typeof globalThis & {
+  __agentSandboxManager?: SandboxManager;
+};
+
+/**
+ * Process-wide manager configured from env: `AGENT_SANDBOX_POOL_SIZE`
+ * (default 0), `AGENT_SANDBOX_POOL_RUNTIMES` (default node22) and
+ * `AGENT_SANDBOX_POOL_MAX_AGE_MS` (default 5 minutes).
+ * `AGENT_SANDBOX_PROVIDER=local` swaps Vercel Sandbox for local child
+ * processes, for development without Vercel credentials.
+ */
+export function getSandboxManager() {
+  if (!globalForSandboxes.__agentSandboxManager) {
+    globalForSandboxes.__agentSandboxManager = createSandboxManager(
+      process.env.AGENT_SANDBOX_PROVIDER === "local"
+        ? localSandboxProvider
+        : vercelSandboxProvider,
+      {
+        size: readNonNegativeInt(process.env.AGENT_SANDBOX_POOL_SIZE, 0),
+        runtimes: (process.env.AGENT_SANDBOX_POOL_RUNTIMES ?? "node22")
+          .split(",")
+          .map((runtime) => runtime.trim())
+          .filter(Boolean),
+        maxAgeMs: readNonNegativeInt(
+          process.env.AGENT_SANDBOX_POOL_MAX_AGE_MS,
+          5 * 60_000,
+        ),
+        runTimeoutMs: Math.max(30_000, commandBudgetMs(getExecutionLimits())),
+        healthCheckTimeoutMs: 5_000,
+      },
+    );
+  }
+
+  return globalForSandboxes.__agentSandboxManager;
+}
@@ -0,0 +1,77 @@
+import { readPositiveInt } from "@/lib/env";
+
+export type SandboxOutputLimits = {
+  stdoutChars: number;
+  stderrChars: number;
+  installLogChars: number;
+};
+
+/** What `runInSandbox` hands back to the model, and what the trace stores. */
+export type SandboxRunResult = {
+  /** `install` when a package install failed and the code never ran. */
+  phase: "install" | "run";
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  timedOut: boolean;
+  /** Why the command was stopped, e.g. "Timed out after 10s and was stopped." */
+  error?: string;
+  installLog?: string;
+  truncated: { stdout: boolean; stderr: boolean; installLog: boolean };
+};
+
+/**
+ * Character caps applied before output reaches the model or the trace:
+ * `AGENT_SANDBOX_MAX_STDOUT_CHARS` (default 4000),
+ * `AGENT_SANDBOX_MAX_STDERR_CHARS` and `AGENT_SANDBOX_MAX_INSTALL_LOG_CHARS`
+ * (default 2000 each).
+ */
+export function getOutputLimits(): SandboxOutputLimits {
+  return {
+    stdoutChars: readPositiveInt(
+      process.env.AGENT_SANDBOX_MAX_STDOUT_CHARS,
+      4000,
+    ),
+    stderrChars: readPositiveInt(
+      process.env.AGENT_SANDBOX_MAX_STDERR_CHARS,
+      2000,
+    ),
+    installLogChars: readPositiveInt(
+      process.env.AGENT_SANDBOX_MAX_INSTALL_LOG_CHARS,
+      2000,
+    ),
+  };
+}
+
+function truncate(text: string, maxChars: number) {
+  const trimmed = text.trim();
+  return trimmed.length > maxChars
+    ? { text: trimmed.slice(0, maxChars), truncated: true }
+    : { text: trimmed, truncated: false };
+}
+
+export function buildRunResult(
+  raw: Omit<SandboxRunResult, "truncated">,
+  limits: SandboxOutputLimits,
+): SandboxRunResult {
+  const stdout = truncate(raw.stdout, limits.stdoutChars);
+  const stderr = truncate(raw.stderr, limits.stderrChars);
+  const installLog = truncate(raw.installLog ?? "", limits.installLogChars);
+
+  return {
+    phase: raw.phase,
+    exitCode: raw.exitCode,
+    stdout: stdout.text,
+    stderr: stderr.text,
+    durationMs: raw.durationMs,
+    timedOut: raw.timedOut,
+    ...(raw.error ? { error: raw.error } : {}),
+    ...(raw.installLog !== undefined ? { installLog: installLog.text } : {}),
+    truncated: {
+      stdout: stdout.truncated,
+      stderr: stderr.truncated,
+      installLog: installLog.truncated,
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import path from "path";
+import { z } from "zod";
+import {
+  PACKAGE_SPEC_PATTERN,
+  type SandboxCommandSpec,
+  type SandboxLanguage,
+} from "@/lib/sandbox-languages";
+
+export const MAX_PROJECT_FILES = 20;
+export const MAX_PROJECT_FILE_CHARS = 50_000;
+export const MAX_PROJECT_TOTAL_CHARS = 200_000;
+
+export type ProjectFile = { path: string; size: number };
+
+// Relative POSIX paths that stay inside the working directory. node_modules is
+// left to the package install so a project cannot shadow installed packages.
+function isProjectPath(file: string) {
+  if (file.startsWith("/") || file.includes("\\")) {
+    return false;
+  }
+  const normalized = path.posix.normalize(file);
+  return (
+    normalized === file &&
+    !normalized.startsWith("../") &&
+    normalized !== ".." &&
+    !normalized.split("/").includes("node_modules")
+  );
+}
+
+export const projectInputSchema = z
+  .object({
+    files: z
+      .record(
+        z
+          .string()
+          .min(1)
+          .max(200)
+          .refine(isProjectPath, "Use a relative path inside the project."),
+        z.string().max(MAX_PROJECT_FILE_CHARS),
+      )
+      .refine(
+        (files) => Object.keys(files).length > 0,
+        "Provide at least one file.",
+      )
+      .refine(
+        (files) => Object.keys(files).length <= MAX_PROJECT_FILES,
+        `A project may have at most ${MAX_PROJECT_FILES} files.`,
+      )
+      .refine(
+        (files) =>
+          Object.values(files).reduce(
+            (total, content) => total + content.length,
+            0,
+          ) <= MAX_PROJECT_TOTAL_CHARS,
+        `A project may have at most ${MAX_PROJECT_TOTAL_CHARS} characters in total.`,
+      ),
+    entry: z.string().min(1).optional(),
+    script: z
+      .string()
+      .regex(/^[a-zA-Z0-9:_-]+$/)
+      .optional(),
+    packages: z.array(z.string().regex(PACKAGE_SPEC_PATTERN)).max(5).optional(),
+  })
+  .refine(
+    (input) => (input.entry === undefined) !== (input.script === undefined),
+    {
+      message: "Set exactly one of entry or script.",
+    },
+  )
+  .refine((input) => input.entry === undefined || input.entry in input.files, {
+    message: "entry must be one of the files.",
+    path: ["entry"],
+  })
+  .refine(
+    (input) => input.script === undefined || "package.json" in input.files,
+    {
+      message: "script needs a package.json in files.",
+      path: ["script"],
+    },
+  );
+
+export type ProjectInput = z.infer<typeof projectInputSchema>;
+
+/** Sorted paths and byte sizes, as recorded in the trace. */
+export function projectTree(files: Record<string, string>): ProjectFile[] {
+  return Object.entries(files)
+    .map(([file, content]) => ({
+      path: file,
+      size: Buffer.byteLength(content),
+    }))
+    .sort((left, right) => left.path.localeCompare(right.path));
+}
+
+/** npm scripts and JavaScript entries run on Node; `.py` runs on Python. */
+export function projectLanguage(input: ProjectInput): SandboxLanguage {
+  if (input.script !== undefined) {
+    return "javascript";
+  }
+  if (input.entry?.endsWith(".py")) {
+    return "python";
+  }
+  return /\.[cm]?ts$/.test(input.entry ?? "") ? "typescript" : "javascript";
+}
+
+export function projectCommand(input: ProjectInput): SandboxCommandSpec {
+  if (input.script !== undefined) {
+    return { cmd: "npm", args: ["run", "--silent", input.script] };
+  }
+
+  const entry = input.entry!;
+  switch (projectLanguage(input)) {
+    case "python":
+      return { cmd: "python3", args: [entry] };
+    case "typescript":
+      return {
+        cmd: "node",
+        args: ["--experimental-strip-types", "--no-warnings", entry],
+      };
+    default:
+      return { cmd: "node", args: [entry] };
+  }
+}
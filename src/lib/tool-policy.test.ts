@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { PACKAGE_SPEC_PATTERN } from "@/lib/sandbox-languages";
+import { checkPackages } from "@/lib/tool-policy";
+
+describe("PACKAGE_SPEC_PATTERN", () => {
+  it.each(["lodash", "lodash@4", "@scope/pkg@1.2.3", "pandas==2.2.3"])(
+    "accepts %s",
+    (spec) => {
+      expect(PACKAGE_SPEC_PATTERN.test(spec)).toBe(true);
+    },
+  );
+
+  it.each([
+    "--registry=http://evil.example.com",
+    "--index-url=http://evil.example.com/simple",
+    "-e",
+    "",
+  ])("rejects %s", (spec) => {
+    expect(PACKAGE_SPEC_PATTERN.test(spec)).toBe(false);
+  });
+});
+
+describe("checkPackages", () => {
+  it("allows any package without a list", () => {
+    expect(checkPackages({}, "pip", ["anything"])).toBeNull();
+  });
+
+  it("checks pip packages against pipPackages by normalized name", () => {
+    const policy = { sandbox: { pipPackages: ["Scikit_Learn", "pandas"] } };
+
+    expect(
+      checkPackages(policy, "pip", ["scikit-learn==1.5", "pandas"]),
+    ).toBeNull();
+    expect(checkPackages(policy, "pip", ["requests"])).toBe(
+      "pip packages not on the allow list: requests.",
+    );
+  });
+
+  it("refuses pip installs when only npm packages are listed", () => {
+    const policy = { sandbox: { npmPackages: ["lodash"] } };
+
+    expect(checkPackages(policy, "npm", ["lodash@4"])).toBeNull();
+    expect(checkPackages(policy, "pip", ["pandas"])).toBe(
+      "pip packages not on the allow list: pandas.",
+    );
+  });
+});
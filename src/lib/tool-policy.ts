@@ -0,0 +1,143 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { npmPackageName } from "@/lib/dependency-cache";
+import type { SandboxCommandSpec } from "@/lib/sandbox-languages";
+
+const domainListSchema = z.array(z.string().trim().min(1));
+
+const toolPolicySchema = z.object({
+  fetchJson: z
+    .object({
+      allowDomains: domainListSchema.optional(),
+      denyDomains: domainListSchema.optional(),
+    })
+    .optional(),
+  sandbox: z
+    .object({
+      network: z.boolean().optional(),
+      npmPackages: z.array(z.string().trim().min(1)).optional(),
+      pipPackages: z.array(z.string().trim().min(1)).optional(),
+      /** Exact versions installed whatever the model asks for. */
+      npmVersions: z
+        .record(z.string(), z.string().regex(/^[a-zA-Z0-9._-]+$/))
+        .optional(),
+    })
+    .optional(),
+});
+
+export type ToolPolicy = z.infer<typeof toolPolicySchema>;
+
+/**
+ * Reads the policy named by `AGENT_TOOL_POLICY_FILE`. Without one every
+ * public host, sandbox network access and any package are allowed. The file is
+ * read on each request so edits apply without a restart; a malformed file
+ * fails the request instead of silently allowing everything.
+ */
+export async function loadToolPolicy(): Promise<ToolPolicy> {
+  const file = process.env.AGENT_TOOL_POLICY_FILE?.trim();
+  if (!file) {
+    return {};
+  }
+
+  const raw = await readFile(path.resolve(file), "utf8");
+  const parsed = toolPolicySchema.safeParse(JSON.parse(raw));
+  if (!parsed.success) {
+    throw new Error(`Invalid tool policy in ${file}: ${parsed.error.message}`);
+  }
+
+  return parsed.data;
+}
+
+function normalizeHost(hostname: string) {
+  return hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, "")
+    .replace(/\.$/, "");
+}
+
+/** `example.com`, `.example.com` and `*.example.com` all cover subdomains. */
+function matchesDomain(hostname: string, entry: string) {
+  const domain = normalizeHost(entry.replace(/^\*?\./, ""));
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Returns why `hostname` may not be fetched, or null when it is allowed.
+ * Deny entries win over allow entries.
+ */
+export function checkFetchHost(policy: ToolPolicy, hostname: string) {
+  const host = normalizeHost(hostname);
+  const { allowDomains, denyDomains } = policy.fetchJson ?? {};
+
+  if (denyDomains?.some((entry) => matchesDomain(host, entry))) {
+    return `${host} is on the fetchJson deny list.`;
+  }
+
+  if (
+    allowDomains &&
+    !allowDomains.some((entry) => matchesDomain(host, entry))
+  ) {
+    return `${host} is not on the fetchJson allow list.`;
+  }
+
+  return null;
+}
+
+export function isSandboxNetworkAllowed(policy: ToolPolicy) {
+  return policy.sandbox?.network ?? true;
+}
+
+// pip names are case-insensitive and treat runs of -, _ and . alike (PEP 503).
+function pipPackageName(spec: string) {
+  return spec
+    .split(/[=<>!~[;]/)[0]
+    .toLowerCase()
+    .replace(/[-_.]+/g, "-");
+}
+
+/**
+ * Returns why a package install may not run, or null when it is allowed.
+ * Installs need the network, so they are refused whenever it is off. Listing
+ * packages for either manager restricts both: a manager without a list may
+ * install nothing.
+ */
+export function checkPackages(
+  policy: ToolPolicy,
+  packageManager: "npm" | "pip",
+  packages: string[],
+) {
+  if (packages.length === 0) {
+    return null;
+  }
+
+  if (!isSandboxNetworkAllowed(policy)) {
+    return "Sandbox network access is disabled, so packages cannot be installed.";
+  }
+
+  const { npmPackages, pipPackages } = policy.sandbox ?? {};
+  if (npmPackages || pipPackages) {
+    const nameOf = packageManager === "npm" ? npmPackageName : pipPackageName;
+    const allowed = new Set(
+      (packageManager === "npm" ? npmPackages : pipPackages)?.map(nameOf),
+    );
+    const blocked = packages.filter((spec) => !allowed.has(nameOf(spec)));
+    if (blocked.length > 0) {
+      return `${packageManager} packages not on the allow list: ${blocked.join(", ")}.`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Runs a command in a fresh network namespace with only a loopback device, so
+ * sandbox code cannot open outbound connections. If the namespace cannot be
+ * created the command fails rather than running with network access.
+ */
+export function withoutNetwork(spec: SandboxCommandSpec): SandboxCommandSpec {
+  return {
+    cmd: "unshare",
+    args: ["--net", "--map-root-user", "--", spec.cmd, ...spec.args],
+  };
+}
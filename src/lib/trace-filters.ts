@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+const timestampSchema = z
+  .string()
+  .transform((value) =>
+    /^\d+$/.test(value) ? Number(value) : Date.parse(value),
+  )
+  .refine((value) => Number.isFinite(value), "Expected a timestamp.");
+
+export const traceFilterSchema = z.object({
+  model: z.string().min(1).optional(),
+  sandboxId: z.string().min(1).optional(),
+  tool: z.string().min(1).optional(),
+  exitCode: z.coerce.number().int().optional(),
+  from: timestampSchema.optional(),
+  to: timestampSchema.optional(),
+  status: z.enum(["errored", "succeeded"]).optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+});
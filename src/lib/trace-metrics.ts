@@ -0,0 +1,100 @@
+import type { TraceSummary } from "@/lib/agent-traces";
+
+function percentile(values: number[], p: number) {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(
+    sorted.length - 1,
+    Math.ceil((p / 100) * sorted.length) - 1,
+  );
+  return sorted[Math.max(0, index)];
+}
+
+type MetricsBucket = {
+  runs: number;
+  erroredRuns: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  unpricedRuns: number;
+  durations: number[];
+  sandboxDurations: number[];
+};
+
+function emptyBucket(): MetricsBucket {
+  return {
+    runs: 0,
+    erroredRuns: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    unpricedRuns: 0,
+    durations: [],
+    sandboxDurations: [],
+  };
+}
+
+function addToBucket(bucket: MetricsBucket, summary: TraceSummary) {
+  bucket.runs += 1;
+  if (summary.hasError) {
+    bucket.erroredRuns += 1;
+  }
+  bucket.inputTokens += summary.usage?.inputTokens ?? 0;
+  bucket.outputTokens += summary.usage?.outputTokens ?? 0;
+  if (summary.costUsd === null) {
+    bucket.unpricedRuns += 1;
+  } else {
+    bucket.costUsd += summary.costUsd;
+  }
+  if (summary.durationMs !== null) {
+    bucket.durations.push(summary.durationMs);
+  }
+  if (summary.sandboxMs > 0) {
+    bucket.sandboxDurations.push(summary.sandboxMs);
+  }
+}
+
+function finalizeBucket(bucket: MetricsBucket) {
+  return {
+    runs: bucket.runs,
+    erroredRuns: bucket.erroredRuns,
+    inputTokens: bucket.inputTokens,
+    outputTokens: bucket.outputTokens,
+    costUsd: Number(bucket.costUsd.toFixed(6)),
+    unpricedRuns: bucket.unpricedRuns,
+    latencyMs: {
+      p50: percentile(bucket.durations, 50),
+      p95: percentile(bucket.durations, 95),
+    },
+    sandboxMs: {
+      p50: percentile(bucket.sandboxDurations, 50),
+      p95: percentile(bucket.sandboxDurations, 95),
+    },
+  };
+}
+
+/**
+ * Aggregates spend and latency across runs, overall and per model. Runs whose
+ * model has no price entry are counted in `unpricedRuns` instead of costUsd.
+ */
+export function computeTraceMetrics(summaries: TraceSummary[]) {
+  const total = emptyBucket();
+  const byModel = new Map<string, MetricsBucket>();
+
+  for (const summary of summaries) {
+    addToBucket(total, summary);
+    const bucket = byModel.get(summary.model) ?? emptyBucket();
+    addToBucket(bucket, summary);
+    byModel.set(summary.model, bucket);
+  }
+
+  return {
+    ...finalizeBucket(total),
+    models: Object.fromEntries(
+      [...byModel].map(([model, bucket]) => [model, finalizeBucket(bucket)]),
+    ),
+  };
+}
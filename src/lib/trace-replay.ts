@@ -0,0 +1,337 @@
+import { randomUUID } from "crypto";
+import { tool, zodSchema, type LanguageModel } from "ai";
+import { z } from "zod";
+import { createAgentRunner, type AgentToolHelpers } from "@/lib/agent-runner";
+import {
+  getTrace,
+  traceRecorder,
+  type AgentTrace,
+  type TraceEvent,
+} from "@/lib/agent-traces";
+import type { SandboxFactory } from "@/lib/sandbox-manager";
+
+type ReplayModel = Extract<LanguageModel, { specificationVersion: "v3" }>;
+type ReplayStreamPart =
+  Awaited<ReturnType<ReplayModel["doStream"]>>["stream"] extends ReadableStream<
+    infer Part
+  >
+    ? Part
+    : never;
+
+type RecordedToolCall = Extract<TraceEvent, { type: "tool-call" }>;
+type RecordedOutcome = Extract<
+  TraceEvent,
+  { type: "tool-result" | "tool-error" | "tool-output-denied" }
+>;
+
+const OUTCOME_TYPES = new Set<TraceEvent["type"]>([
+  "tool-result",
+  "tool-error",
+  "tool-output-denied",
+]);
+
+function isOutcome(event: TraceEvent): event is RecordedOutcome {
+  return OUTCOME_TYPES.has(event.type);
+}
+
+type ReplayStep = {
+  toolCalls: RecordedToolCall[];
+  text: string;
+};
+
+export type TraceDifference = {
+  path: string;
+  original: unknown;
+  replay: unknown;
+};
+
+export type TraceDiff = {
+  identical: boolean;
+  differences: TraceDifference[];
+};
+
+const EMPTY_USAGE = {
+  inputTokens: {
+    total: 0,
+    noCache: 0,
+    cacheRead: undefined,
+    cacheWrite: undefined,
+  },
+  outputTokens: { total: 0, text: 0, reasoning: undefined },
+};
+
+// Tool calls are assigned to the first step that finished after them. Traces
+// without step records replay as one tool step followed by the final text.
+function replaySteps(trace: AgentTrace): ReplayStep[] {
+  const toolCalls = trace.events.filter(
+    (event): event is RecordedToolCall => event.type === "tool-call",
+  );
+  const steps = trace.steps ?? [];
+
+  if (steps.length === 0) {
+    return toolCalls.length > 0
+      ? [
+          { toolCalls, text: "" },
+          { toolCalls: [], text: "" },
+        ]
+      : [{ toolCalls: [], text: "" }];
+  }
+
+  return steps.map((step, index) => {
+    const previous = index > 0 ? steps[index - 1].finishedAt : -Infinity;
+    return {
+      toolCalls: toolCalls.filter(
+        (call) =>
+          call.timestamp > previous &&
+          (call.timestamp <= step.finishedAt || index === steps.length - 1),
+      ),
+      text: step.text ?? "",
+    };
+  });
+}
+
+/**
+ * A model that answers each step with what the trace recorded: the same text
+ * and the same tool calls, under their original toolCallIds.
+ */
+export function createReplayModel(trace: AgentTrace): ReplayModel {
+  const steps = replaySteps(trace);
+
+  // The step is inferred from how many assistant turns the prompt already has.
+  const stepFor = (prompt: { role: string }[]) =>
+    steps[prompt.filter((message) => message.role === "assistant").length] ?? {
+      toolCalls: [],
+      text: "",
+    };
+
+  const finishReason = (step: ReplayStep) =>
+    step.toolCalls.length > 0
+      ? { unified: "tool-calls" as const, raw: "tool-calls" }
+      : { unified: "stop" as const, raw: "stop" };
+
+  return {
+    specificationVersion: "v3",
+    provider: "replay",
+    modelId: trace.model,
+    supportedUrls: {},
+    async doGenerate(options) {
+      const step = stepFor(options.prompt);
+      return {
+        content: [
+          ...(step.text ? [{ type: "text" as const, text: step.text }] : []),
+          ...step.toolCalls.map((call) => ({
+            type: "tool-call" as const,
+            toolCallId: call.toolCallId,
+            toolName: call.toolName,
+            input: JSON.stringify(call.input),
+          })),
+        ],
+        finishReason: finishReason(step),
+        usage: EMPTY_USAGE,
+        warnings: [],
+      };
+    },
+    async doStream(options) {
+      const step = stepFor(options.prompt);
+      const parts: ReplayStreamPart[] = [
+        { type: "stream-start", warnings: [] },
+      ];
+
+      if (step.text) {
+        parts.push(
+          { type: "text-start", id: "text" },
+          { type: "text-delta", id: "text", delta: step.text },
+          { type: "text-end", id: "text" },
+        );
+      }
+
+      for (const call of step.toolCalls) {
+        parts.push({
+          type: "tool-call",
+          toolCallId: call.toolCallId,
+          toolName: call.toolName,
+          input: JSON.stringify(call.input),
+        });
+      }
+
+      parts.push({
+        type: "finish",
+        finishReason: finishReason(step),
+        usage: EMPTY_USAGE,
+      });
+
+      return {
+        stream: new ReadableStream<ReplayStreamPart>({
+          start(controller) {
+            parts.forEach((part) => controller.enqueue(part));
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
+
+function recordedOutcomes(trace: AgentTrace) {
+  const outcomes = new Map<string, RecordedOutcome>();
+  for (const event of trace.events) {
+    if (isOutcome(event) && event.toolCallId) {
+      outcomes.set(event.toolCallId, event);
+    }
+  }
+  return outcomes;
+}
+
+const replayInputSchema = z.record(z.string(), z.unknown());
+
+/**
+ * Stand-ins for `fetchJson`, `runInSandbox` and `runProject` that hand back
+ * the recorded output for each toolCallId instead of touching the network or a
+ * sandbox.
+ */
+export function createReplayTools(
+  trace: AgentTrace,
+  { denyToolCall }: AgentToolHelpers,
+) {
+  const outcomes = recordedOutcomes(trace);
+
+  const replayTool = (description: string) =>
+    tool({
+      description,
+      inputSchema: zodSchema(replayInputSchema),
+      execute: async (_input, { toolCallId }) => {
+        const outcome = outcomes.get(toolCallId);
+        if (!outcome) {
+          throw new Error("The original trace has no output for this call.");
+        }
+
+        if (outcome.type === "tool-error") {
+          throw new Error(outcome.error);
+        }
+
+        if (outcome.type === "tool-output-denied") {
+          const reason = outcome.reason ?? "Denied.";
+          return denyToolCall(toolCallId, reason, reason);
+        }
+
+        return outcome.output;
+      },
+    });
+
+  return {
+    fetchJson: replayTool("Returns the recorded fetchJson output."),
+    runInSandbox: replayTool("Returns the recorded runInSandbox output."),
+    runProject: replayTool("Returns the recorded runProject output."),
+  };
+}
+
+// Replay tools never ask for a sandbox; this only guards against one that does.
+const noSandboxes: SandboxFactory = {
+  acquire: async () => {
+    throw new Error("Offline replays do not run a sandbox.");
+  },
+  release: async () => {},
+};
+
+/**
+ * Re-runs a trace through the agent runner with the recorded model output and
+ * tool results, and records the result as a new trace. Only as deterministic
+ * as the stored payloads are complete.
+ */
+export async function replayOffline(trace: AgentTrace, ownerId: string) {
+  const runner = createAgentRunner({
+    createModel: () => createReplayModel(trace),
+    createTools: (helpers) => createReplayTools(trace, helpers),
+    sandboxes: noSandboxes,
+    traces: traceRecorder,
+  });
+
+  const traceId = randomUUID();
+  try {
+    const run = await runner.run({
+      traceId,
+      ownerId,
+      prompt: trace.prompt,
+      modelChain: [`replay/${trace.model}`],
+    });
+    const reader = run.events.getReader();
+    while (!(await reader.read()).done) {
+      // The runner records everything; the events themselves are not needed.
+    }
+  } catch (error) {
+    // A replay model that cannot start is already recorded as a failed trace.
+    console.error("Offline replay failed to start:", error);
+  }
+
+  return getTrace(traceId);
+}
+
+function outcomeOf(event: RecordedOutcome | undefined) {
+  if (!event) {
+    return null;
+  }
+  if (event.type === "tool-result") {
+    return { type: event.type, output: event.output };
+  }
+  if (event.type === "tool-error") {
+    return { type: event.type, error: event.error };
+  }
+  return { type: event.type, reason: event.reason };
+}
+
+function toolCallsOf(trace: AgentTrace) {
+  const outcomes = recordedOutcomes(trace);
+  return trace.events
+    .filter((event): event is RecordedToolCall => event.type === "tool-call")
+    .map((call) => ({
+      toolName: call.toolName,
+      input: call.input,
+      outcome: outcomeOf(outcomes.get(call.toolCallId)),
+    }));
+}
+
+function textOf(trace: AgentTrace) {
+  return (trace.steps ?? []).map((step) => step.text ?? "").join("");
+}
+
+/**
+ * Compares what two runs did: each tool call's name, input and outcome in
+ * order, the step count, the final finish reason and the model's text. Ids,
+ * timestamps and usage are expected to differ and are ignored.
+ */
+export function diffTraces(
+  original: AgentTrace,
+  replay: AgentTrace,
+): TraceDiff {
+  const differences: TraceDifference[] = [];
+  const compare = (path: string, left: unknown, right: unknown) => {
+    if (JSON.stringify(left) !== JSON.stringify(right)) {
+      differences.push({ path, original: left, replay: right });
+    }
+  };
+
+  const originalCalls = toolCallsOf(original);
+  const replayCalls = toolCallsOf(replay);
+  compare("toolCalls.length", originalCalls.length, replayCalls.length);
+
+  const shared = Math.min(originalCalls.length, replayCalls.length);
+  for (let index = 0; index < shared; index += 1) {
+    const left = originalCalls[index];
+    const right = replayCalls[index];
+    compare(`toolCalls[${index}].toolName`, left.toolName, right.toolName);
+    compare(`toolCalls[${index}].input`, left.input, right.input);
+    compare(`toolCalls[${index}].outcome`, left.outcome, right.outcome);
+  }
+
+  const originalSteps = original.steps ?? [];
+  const replayedSteps = replay.steps ?? [];
+  compare("steps.length", originalSteps.length, replayedSteps.length);
+  compare(
+    "finishReason",
+    originalSteps.at(-1)?.finishReason,
+    replayedSteps.at(-1)?.finishReason,
+  );
+  compare("text", textOf(original), textOf(replay));
+
+  return { identical: differences.length === 0, differences };
+}
@@ -0,0 +1,101 @@
+import { readFileSync } from "fs";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { AgentTrace } from "@/lib/agent-traces";
+import { createFileTraceStore } from "@/lib/trace-store";
+
+const trace = (id: string, startedAt = Date.now()): AgentTrace => ({
+  id,
+  prompt: "p",
+  model: "m",
+  sandboxId: null,
+  startedAt,
+  events: [],
+});
+
+describe("createFileTraceStore", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "trace-store-test-"));
+    filePath = path.join(dir, "traces.jsonl");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("logs one line per list entry instead of the whole list", async () => {
+    const store = createFileTraceStore(filePath, { maxCount: 10 });
+    store.create(trace("a"));
+    for (let index = 0; index < 50; index += 1) {
+      store.appendItem("a", "sandboxCommands", {
+        command: `node step-${index}.js`,
+        startedAt: index,
+        durationMs: 1,
+        exitCode: 0,
+      });
+    }
+    await store.flush();
+
+    const lines = readFileSync(filePath, "utf8").trim().split("\n");
+    expect(lines).toHaveLength(51);
+    expect(Math.max(...lines.slice(1).map((line) => line.length))).toBeLessThan(
+      200,
+    );
+
+    const reloaded = createFileTraceStore(filePath, { maxCount: 10 });
+    expect(reloaded.get("a")?.sandboxCommands).toHaveLength(50);
+    expect(reloaded.get("a")?.sandboxCommands?.[49].command).toBe(
+      "node step-49.js",
+    );
+  });
+
+  it("keeps one approval per tool call across a reload", async () => {
+    const store = createFileTraceStore(filePath, { maxCount: 10 });
+    store.create(trace("a"));
+    store.appendItem("a", "approvals", {
+      toolCallId: "call-1",
+      status: "pending",
+      requestedAt: 1,
+    });
+    store.appendItem("a", "approvals", {
+      toolCallId: "call-1",
+      status: "approved",
+      requestedAt: 1,
+      decidedAt: 2,
+    });
+    await store.flush();
+
+    const reloaded = createFileTraceStore(filePath, { maxCount: 10 });
+    expect(reloaded.get("a")?.approvals).toEqual([
+      {
+        toolCallId: "call-1",
+        status: "approved",
+        requestedAt: 1,
+        decidedAt: 2,
+      },
+    ]);
+  });
+
+  it("compacts the log when retention drops a trace", async () => {
+    const store = createFileTraceStore(filePath, { maxCount: 1 });
+    store.create(trace("old", 1));
+    store.appendItem("old", "failedModels", { model: "m", error: "e" });
+    store.create(trace("new", 2));
+    store.update("new", { status: "succeeded" });
+    await store.flush();
+
+    const records = readFileSync(filePath, "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(records).toEqual([
+      { op: "put", trace: trace("new", 2) },
+      { op: "update", id: "new", patch: { status: "succeeded" } },
+    ]);
+  });
+});
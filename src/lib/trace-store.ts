@@ -0,0 +1,255 @@
+import fs from "fs";
+import { appendFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { AgentTrace, TraceEvent } from "@/lib/agent-traces";
+
+export type TraceRetention = {
+  maxCount: number;
+  maxAgeMs?: number;
+};
+
+export type TracePatch = Partial<Omit<AgentTrace, "id" | "events">>;
+
+/** Trace fields that grow one entry at a time while a run goes on. */
+export type TraceListField =
+  | "steps"
+  | "sandboxCommands"
+  | "sandboxRuns"
+  | "dependencyInstalls"
+  | "failedModels"
+  | "approvals";
+
+export type TraceListItem<Field extends TraceListField> = NonNullable<
+  AgentTrace[Field]
+>[number];
+
+export interface TraceStore {
+  create(trace: AgentTrace): void;
+  appendEvent(traceId: string, event: TraceEvent): void;
+  update(traceId: string, patch: TracePatch): void;
+  /**
+   * Adds one entry to a list field. Approvals are keyed by toolCallId, so a
+   * decision replaces the pending entry for the same call.
+   */
+  appendItem<Field extends TraceListField>(
+    traceId: string,
+    field: Field,
+    item: TraceListItem<Field>,
+  ): void;
+  delete(traceId: string): void;
+  get(traceId: string): AgentTrace | null;
+  /** Returns stored traces, newest first. */
+  list(): AgentTrace[];
+  prune(): void;
+}
+
+function expiredIds(
+  traces: AgentTrace[],
+  retention: TraceRetention,
+  now = Date.now(),
+) {
+  const newestFirst = [...traces].sort((a, b) => b.startedAt - a.startedAt);
+  return newestFirst
+    .filter(
+      (trace, index) =>
+        index >= retention.maxCount ||
+        (retention.maxAgeMs !== undefined &&
+          now - trace.startedAt > retention.maxAgeMs),
+    )
+    .map((trace) => trace.id);
+}
+
+export function createMemoryTraceStore(retention: TraceRetention): TraceStore {
+  const traces = new Map<string, AgentTrace>();
+
+  const store: TraceStore = {
+    create(trace) {
+      traces.set(trace.id, trace);
+      store.prune();
+    },
+    appendEvent(traceId, event) {
+      traces.get(traceId)?.events.push(event);
+    },
+    update(traceId, patch) {
+      const trace = traces.get(traceId);
+      if (trace) {
+        Object.assign(trace, patch);
+      }
+    },
+    appendItem(traceId, field, item) {
+      const trace = traces.get(traceId);
+      if (!trace) {
+        return;
+      }
+
+      const items = (trace[field] ?? []) as TraceListItem<typeof field>[];
+      const kept =
+        field === "approvals"
+          ? items.filter(
+              (entry) =>
+                (entry as TraceListItem<"approvals">).toolCallId !==
+                (item as TraceListItem<"approvals">).toolCallId,
+            )
+          : items;
+      Object.assign(trace, { [field]: [...kept, item] });
+    },
+    delete(traceId) {
+      traces.delete(traceId);
+    },
+    get(traceId) {
+      return traces.get(traceId) ?? null;
+    },
+    list() {
+      return [...traces.values()].sort((a, b) => b.startedAt - a.startedAt);
+    },
+    prune() {
+      for (const id of expiredIds([...traces.values()], retention)) {
+        traces.delete(id);
+      }
+    },
+  };
+
+  return store;
+}
+
+type TraceLogRecord =
+  | { op: "put"; trace: AgentTrace }
+  | { op: "event"; id: string; event: TraceEvent }
+  | { op: "update"; id: string; patch: TracePatch }
+  | {
+      op: "item";
+      id: string;
+      field: TraceListField;
+      item: TraceListItem<TraceListField>;
+    }
+  | { op: "delete"; id: string };
+
+/**
+ * Append-only JSONL log on local disk. Every mutation is one line, the log is
+ * replayed into memory on startup and compacted to one `put` per trace when
+ * retention drops traces. Only the startup read is synchronous; writes are
+ * queued in order behind each other, and `flush` waits for them.
+ */
+export function createFileTraceStore(
+  filePath: string,
+  retention: TraceRetention,
+): TraceStore & { flush(): Promise<void> } {
+  const memory = createMemoryTraceStore({ maxCount: Number.MAX_SAFE_INTEGER });
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  if (fs.existsSync(filePath)) {
+    const lines = fs.readFileSync(filePath, "utf8").split("\n");
+    for (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let record: TraceLogRecord;
+      try {
+        record = JSON.parse(line) as TraceLogRecord;
+      } catch {
+        // A crash mid-write can leave a partial last line behind.
+        continue;
+      }
+
+      if (record.op === "put") {
+        memory.create(record.trace);
+      } else if (record.op === "event") {
+        memory.appendEvent(record.id, record.event);
+      } else if (record.op === "update") {
+        memory.update(record.id, record.patch);
+      } else if (record.op === "item") {
+        memory.appendItem(record.id, record.field, record.item);
+      } else if (record.op === "delete") {
+        memory.delete(record.id);
+      }
+    }
+  }
+
+  let writes = Promise.resolve();
+  function enqueue(write: () => Promise<void>) {
+    writes = writes.then(write).catch((error) => {
+      console.error("Failed to write trace log:", error);
+    });
+  }
+
+  function append(record: TraceLogRecord) {
+    const line = `${JSON.stringify(record)}\n`;
+    enqueue(() => appendFile(filePath, line));
+  }
+
+  // The snapshot is taken now, so later appends land after it in the queue.
+  function compact() {
+    const tmpPath = `${filePath}.tmp`;
+    const lines = memory
+      .list()
+      .reverse()
+      .map((trace) => `${JSON.stringify({ op: "put", trace })}\n`)
+      .join("");
+    enqueue(async () => {
+      await writeFile(tmpPath, lines);
+      await rename(tmpPath, filePath);
+    });
+  }
+
+  const store: TraceStore & { flush(): Promise<void> } = {
+    create(trace) {
+      memory.create(trace);
+      append({ op: "put", trace });
+      store.prune();
+    },
+    appendEvent(traceId, event) {
+      if (!memory.get(traceId)) {
+        return;
+      }
+      memory.appendEvent(traceId, event);
+      append({ op: "event", id: traceId, event });
+    },
+    update(traceId, patch) {
+      if (!memory.get(traceId)) {
+        return;
+      }
+      memory.update(traceId, patch);
+      append({ op: "update", id: traceId, patch });
+    },
+    appendItem(traceId, field, item) {
+      if (!memory.get(traceId)) {
+        return;
+      }
+      memory.appendItem(traceId, field, item);
+      append({ op: "item", id: traceId, field, item });
+    },
+    delete(traceId) {
+      if (!memory.get(traceId)) {
+        return;
+      }
+      memory.delete(traceId);
+      append({ op: "delete", id: traceId });
+    },
+    get(traceId) {
+      return memory.get(traceId);
+    },
+    list() {
+      return memory.list();
+    },
+    prune() {
+      const expired = expiredIds(memory.list(), retention);
+      if (expired.length === 0) {
+        return;
+      }
+
+      for (const id of expired) {
+        memory.delete(id);
+      }
+      compact();
+    },
+    flush() {
+      return writes;
+    },
+  };
+
+  store.prune();
+
+  return store;
+}